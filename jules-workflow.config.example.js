@@ -36,15 +36,38 @@ module.exports = {
     sectionOrder: [
       "header",
       "summaryHeader",
+      "truncationWarning",
+      "budgetNotice",
+      "sinceLastCommit",
       "prOverview",
       "linearOverview",
+      "prDiff",
+      "ciStatus",
       "humanReviews",
       "humanCodeComments",
       "humanGeneralComments",
+      "suggestedChanges",
       "botFeedback",
+      "previouslyAddressed",
       "actionItems",
       "julesRules"
-    ]
+    ],
+
+    // Custom output template (path relative to the project root). Templates
+    // can loop over and test the extracted data, e.g. {{#each threads}}, and
+    // embed built-in sections with {{sections.humanReviews}}.
+    // See templates/default.md for the default layout.
+    template: null,
+
+    // Approximate token budget for the output (0 = unlimited). Over budget,
+    // low-priority bot items are dropped first, then code context is
+    // truncated, then older comments are summarized. High-priority human
+    // feedback and the Jules Rules are always kept.
+    maxTokens: 0,
+
+    // List human feedback under its category (bug, tests, docs, ...) in
+    // the action items, e.g. to hand all test feedback to Jules at once
+    groupActionItemsByCategory: false
   },
 
   // ===== CONTENT FILTERING =====
@@ -55,11 +78,29 @@ module.exports = {
       "github-actions[bot]",
       "dependabot[bot]",
       "vercel[bot]",
+      "netlify[bot]",
+      "coderabbitai[bot]",
+      "sourcery-ai[bot]",
+      "gemini-code-assist[bot]",
       "linear[bot]",
       "codecov[bot]",        // Example: Add Codecov bot
       "sonarcloud[bot]"      // Example: Add SonarCloud bot
     ],
 
+    // Turn a bot's comments into structured findings, keyed by bot login.
+    // Built in: Copilot review summaries, CodeRabbit / Sourcery / Gemini Code
+    // Assist overviews, and Vercel / Netlify deploy comments. A parser gets
+    // { author, body, path, line } and returns null to leave the comment as
+    // is; mapping a login to null turns its built-in parser off.
+    botParsers: {
+      "codecov[bot]": (comment) => {
+        const coverage = comment.body.match(/Project coverage is ([\d.]+%)/);
+        return coverage
+          ? { title: "Codecov", summary: [`Coverage ${coverage[1]}`], findings: [] }
+          : null;
+      }
+    },
+
     // Enable comment deduplication
     enableDeduplication: true,
 
@@ -69,13 +110,27 @@ module.exports = {
     // Max bot items to show per priority level
     maxBotItemsPerPriority: 3,
 
+    // Show near-identical bot comments (e.g. the same Copilot remark on a
+    // dozen lines) once, listing every path:line they were left on
+    clusterBotFeedback: true,
+
+    // How alike bot comments must be to share a group, from 0 to 1, after
+    // numbers, code and links are flattened (1 = identical)
+    similarityThreshold: 0.8,
+
     // Show empty sections (if false, hides sections with no content)
-    includeEmptySections: false
+    includeEmptySections: false,
+
+    // Inline review threads that were resolved, or whose lines later commits
+    // changed ("outdated"). Options: "include" (render normally),
+    // "collapse" (one-line entries under "Previously addressed"), "hide"
+    resolvedThreads: "collapse",
+    outdatedThreads: "collapse"
   },
 
   // ===== PRIORITY CLASSIFICATION =====
   priority: {
-    // Add project-specific priority keywords
+    // Add project-specific priority keywords (whole words, case-insensitive)
     customKeywords: {
       HIGH: [
         "deployment",
@@ -95,6 +150,49 @@ module.exports = {
       ]
     },
 
+    // Score each custom keyword adds to its priority
+    keywordWeight: 2,
+
+    // Weighted rules, added to the built-in ones. A string matches whole
+    // words; a regex matches as written. Reusing a built-in pattern replaces
+    // it, and weight 0 turns it off.
+    rules: [
+      { pattern: "flaky", priority: "HIGH", weight: 2 },
+      { pattern: /\bTODO\b/, priority: "LOW", weight: 1 },
+      { pattern: "should", priority: "MEDIUM", weight: 0 }
+    ],
+
+    // Extra weight from the review state and the commenter's GitHub role
+    // (OWNER, MEMBER, COLLABORATOR, CONTRIBUTOR, ... or BOT)
+    signals: {
+      reviewStates: {
+        CHANGES_REQUESTED: { priority: "HIGH", weight: 3 }
+      },
+      authorRoles: {
+        BOT: { priority: "LOW", weight: 1 }
+      }
+    },
+
+    // A keyword right after one of these is ignored ("not critical")
+    negationWords: ["not", "no", "non", "never", "without", "hardly", "nor"],
+
+    // Lowest winning score; below it defaultPriority is used
+    minScore: 1,
+
+    // Add a "Why:" line with the matched rules under each comment
+    explain: false,
+
+    // "ai" has aiSummary.model classify each comment's priority and
+    // category; keyword rules stay the fallback without GEMINI_API_KEY.
+    // Results are cached by comment hash, so re-runs are free.
+    classifier: {
+      mode: "keywords",
+      batchSize: 20,
+      cacheFile: null, // ~/.cache/jules-workflow/ai-classifications.json
+      maxCacheEntries: 5000,
+      maxBodyLength: 2000
+    },
+
     // Customize priority emojis
     priorityEmojis: {
       HIGH: "🚨",
@@ -106,9 +204,50 @@ module.exports = {
     defaultPriority: "MEDIUM"
   },
 
+  // ===== FEEDBACK CATEGORIES =====
+  // bug, security, tests, performance, style, docs or question
+  categories: {
+    // Add project-specific category keywords (whole words, case-insensitive)
+    customKeywords: {
+      tests: ["e2e", "playwright"],
+      docs: ["storybook"]
+    },
+
+    // Score each custom keyword adds to its category
+    keywordWeight: 2,
+
+    // Weighted rules, added to the built-in ones (same format as
+    // priority.rules, with category instead of priority)
+    rules: [
+      { pattern: /\bsnapshots?\b/i, category: "tests", weight: 2 }
+    ],
+
+    // Customize category emojis
+    categoryEmojis: {
+      bug: "🐛",
+      security: "🔒",
+      tests: "🧪",
+      performance: "⚡",
+      style: "🎨",
+      docs: "📝",
+      question: "❓"
+    }
+  },
+
   // ===== CODE CONTEXT =====
   codeContext: {
-    // Max lines to show in code diffs
+    // Where inline comments get their code from:
+    //   "headFile" - the file at the PR head, a numbered window centered on
+    //                the commented line, flagged when that line has changed
+    //   "diffHunk" - the diff hunk the reviewer saw when commenting
+    source: "headFile",
+
+    // Files fetched per extraction (comments on other files, deleted lines,
+    // files that can't be fetched and outdated comments whose line is gone
+    // fall back to the diff hunk)
+    maxFilesToFetch: 25,
+
+    // Max lines to show in code diffs and code windows
     maxCodeLines: 15,
 
     // Enable truncation of long code blocks
@@ -119,7 +258,11 @@ module.exports = {
     showFilePaths: true,
 
     // Group code comments by file
-    groupCommentsByFile: true
+    groupCommentsByFile: true,
+
+    // Show each changed file's patch (capped at maxCodeLines) in the
+    // "Changed files" section
+    includeDiffPatches: false
   },
 
   // ===== AI SUMMARY =====
@@ -187,7 +330,11 @@ Keep it actionable for our team.`,
       humanReviews: "**🔥 HUMAN REVIEWS**",
       humanCodeComments: "**💻 CODE FEEDBACK**",
       humanGeneralComments: "**💬 DISCUSSION**",
+      suggestedChanges: "**🩹 SUGGESTED CHANGES**",
       botFeedback: "**🤖 BOT SUGGESTIONS**",
+      prDiff: "**📁 CHANGED FILES**",
+      ciStatus: "**🧪 CI STATUS**",
+      previouslyAddressed: "**✅ PREVIOUSLY ADDRESSED**",
       actionItems: "**📋 ACTION ITEMS**",
       julesRules: "**🎯 Jules Guidelines**"
     }
@@ -199,7 +346,17 @@ Keep it actionable for our team.`,
     enableInteractivePrompts: true,
 
     // Auto-detect preference when multiple options available
-    autoDetectPreference: "linear", // Options: "linear", "pr"
+    autoDetectPreference: "linear", // Options: "linear" (issue tracker first), "pr"
+
+    // Which PRs to extract when a Linear issue links several: ask
+    // ("prompt", falls back to "first" when prompts are off or stdin isn't
+    // a terminal), the first one, or all of them under per-PR headings.
+    // --prs / --all-prs override.
+    multiplePRs: "prompt", // Options: "prompt", "first", "all"
+
+    // Commit author name (substring) of your coding agent. Used to spot
+    // agent commits and by --since-last-commit
+    codingAgentAuthor: "google-labs-jules",
 
     // Auto-assign reviewers behavior  
     autoAssignReviewers: {
@@ -214,7 +371,7 @@ Keep it actionable for our team.`,
     autoSave: {
       enabled: false,
       directory: "./jules-extractions",
-      fileNamePattern: "{type}-{id}-{timestamp}" // {type} = pr|linear, {id} = number/id
+      fileNamePattern: "{type}-{id}-{timestamp}" // {type} = pr or the issue tracker (linear), {id} = number/id
     }
   },
 
@@ -232,6 +389,10 @@ Keep it actionable for our team.`,
 
   // ===== INTEGRATION SETTINGS =====
   integrations: {
+    // Issue tracker to link PRs to and list ready issues from:
+    // "linear", "github" (GitHub Issues of the current repository) or "jira"
+    issueTracker: "linear",
+
     // Linear settings
     linear: {
       // Custom branch naming (null = use Linear's default)
@@ -239,7 +400,15 @@ Keep it actionable for our team.`,
 
       // Include Linear attachments and comments
       includeAttachments: true,
-      includeComments: true
+      includeComments: true,
+
+      // Parent issue (title + description), sub-issues and
+      // blocks / blocked by / related relations
+      includeRelatedIssues: true,
+
+      // Include the Linear project's description (often the feature spec).
+      // Project name, cycle and milestone are always shown.
+      includeProjectDescription: false
     },
 
     // GitHub settings
@@ -248,7 +417,50 @@ Keep it actionable for our team.`,
       includePRDescription: true,
       includeIssueComments: true,
       includeReviewComments: true,
-      includeReviews: true
+      includeReviews: true,
+
+      // GitHub REST API base URL (GitHub Enterprise: https://<host>/api/v3).
+      // The GITHUB_API_URL environment variable takes precedence.
+      apiBaseUrl: "https://api.github.com",
+
+      // Environment variables checked (in order) for a GitHub token. This
+      // list replaces the default one rather than adding to it
+      tokenEnvVars: ["GITHUB_TOKEN", "GH_TOKEN"],
+
+      // Fall back to `gh auth token` when no token variable is set
+      useGhAuthToken: true,
+
+      // Hard cap on items fetched per list endpoint (reviews, comments, ...).
+      // Lists are paged until exhausted; hitting the cap adds a truncation
+      // warning to the output. 0 = no cap.
+      maxItemsPerList: 1000,
+
+      // Fetch the PR's changed files for the "prDiff" section and AI summary
+      includeDiffSummary: true,
+
+      // Check runs and commit statuses for the PR head, shown in "ciStatus".
+      // Failing CI is flagged as HIGH priority in the action items.
+      includeCIStatus: true,
+
+      // Error lines pulled from each failed GitHub Actions job log (0 = none)
+      ciLogLines: 20
+    },
+
+    // Jira settings (credentials: JIRA_EMAIL + JIRA_API_TOKEN for Jira Cloud,
+    // just JIRA_API_TOKEN for a Data Center personal access token, or none
+    // for a server without auth such as a local mock)
+    jira: {
+      // Your site, e.g. "https://acme.atlassian.net" (JIRA_BASE_URL overrides).
+      // Point it at a local mock to try things out offline.
+      baseUrl: null,
+
+      // Projects whose keys link branches to issues, matched in any case
+      // ("feature/proj-123"). Empty: any uppercase key ("feature/PROJ-123")
+      projectKeys: [],
+
+      // Which issues list-issues shows
+      readyIssuesJql: "statusCategory != Done ORDER BY priority DESC, updated DESC",
+      maxReadyIssues: 100
     }
   },
 
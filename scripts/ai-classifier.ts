@@ -0,0 +1,232 @@
+// Classify review feedback with Gemini: a priority and a category for each
+// comment, sent in batches. Results are cached on disk by a hash of the
+// model and comment, so re-running an extraction makes no API calls for
+// comments already seen.
+
+import { GoogleGenAI } from "@google/genai";
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import {
+  FEEDBACK_CATEGORIES,
+  FeedbackCategory,
+  isFeedbackCategory,
+} from "./feedback-categories";
+import { Priority } from "./priority-scoring";
+
+export interface ClassifiableComment {
+  author: string;
+  body: string;
+  path?: string;
+  // Review state, e.g. CHANGES_REQUESTED
+  state?: string;
+}
+
+export interface AIClassification {
+  priority: Priority;
+  // null when the comment fits none of the categories
+  category: FeedbackCategory | null;
+  // True when the result came from the cache rather than the model
+  cached: boolean;
+}
+
+export interface AIClassifierOptions {
+  apiKey: string;
+  model: string;
+  batchSize: number;
+  cacheFile: string;
+  // Oldest entries are dropped beyond this
+  maxCacheEntries: number;
+  // Longer comment bodies are cut before they are sent
+  maxBodyLength: number;
+}
+
+export interface ClassifierLogger {
+  warn(message: string): void;
+}
+
+type CacheEntry = Omit<AIClassification, "cached">;
+
+const CACHE_VERSION = 1;
+
+export function getDefaultCacheFile(): string {
+  const cacheHome = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+  return join(cacheHome, "jules-workflow", "ai-classifications.json");
+}
+
+function hashComment(model: string, comment: ClassifiableComment): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        model,
+        comment.author,
+        comment.path || null,
+        comment.state || null,
+        comment.body,
+      ])
+    )
+    .digest("hex");
+}
+
+function loadCache(
+  cacheFile: string,
+  logger: ClassifierLogger
+): Record<string, CacheEntry> {
+  if (!existsSync(cacheFile)) return {};
+  try {
+    const cache = JSON.parse(readFileSync(cacheFile, "utf8"));
+    return cache.version === CACHE_VERSION ? cache.entries || {} : {};
+  } catch (error) {
+    logger.warn(`Ignoring unreadable classification cache: ${error}`);
+    return {};
+  }
+}
+
+function saveCache(
+  cacheFile: string,
+  entries: Record<string, CacheEntry>,
+  maxEntries: number,
+  logger: ClassifierLogger
+): void {
+  // Objects keep insertion order, so the oldest entries come first
+  const kept = Object.entries(entries).slice(-maxEntries);
+  try {
+    mkdirSync(dirname(cacheFile), { recursive: true });
+    writeFileSync(
+      cacheFile,
+      JSON.stringify({
+        version: CACHE_VERSION,
+        entries: Object.fromEntries(kept),
+      })
+    );
+  } catch (error) {
+    logger.warn(`Could not write classification cache: ${error}`);
+  }
+}
+
+function buildPrompt(
+  comments: ClassifiableComment[],
+  maxBodyLength: number
+): string {
+  const items = comments.map((comment, index) => ({
+    index,
+    author: comment.author,
+    ...(comment.path ? { path: comment.path } : {}),
+    ...(comment.state ? { reviewState: comment.state } : {}),
+    body:
+      comment.body.length > maxBodyLength
+        ? `${comment.body.substring(0, maxBodyLength)}...`
+        : comment.body,
+  }));
+
+  return `Classify each pull request review comment below.
+
+priority:
+- HIGH: must be fixed before merging (bugs, security problems, breakage, failing tests, data loss)
+- MEDIUM: worth addressing (error handling, edge cases, performance, design concerns)
+- LOW: optional polish (naming, style, typos, nitpicks, praise, FYI)
+
+category: one of ${FEEDBACK_CATEGORIES.join(", ")}, or null if none fits.
+
+Judge what the reviewer means, not the words used: "this will break prod" is HIGH, "breaking this line up would be nicer" is LOW.
+
+Reply with a JSON array holding one object per comment, in any order:
+[{"index": 0, "priority": "HIGH", "category": "bug"}]
+
+Comments:
+${JSON.stringify(items, null, 2)}`;
+}
+
+function parseResponse(
+  text: string,
+  count: number
+): Array<CacheEntry | null> {
+  const results: Array<CacheEntry | null> = new Array(count).fill(null);
+  const json = text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, "");
+  const items = JSON.parse(json);
+  if (!Array.isArray(items)) {
+    throw new Error("expected a JSON array");
+  }
+
+  for (const item of items) {
+    const index = Number(item?.index);
+    const priority = String(item?.priority || "").toUpperCase();
+    if (
+      !Number.isInteger(index) ||
+      index < 0 ||
+      index >= count ||
+      !["HIGH", "MEDIUM", "LOW"].includes(priority)
+    ) {
+      continue;
+    }
+    const category = String(item.category || "").toLowerCase();
+    results[index] = {
+      priority: priority as Priority,
+      category: isFeedbackCategory(category) ? category : null,
+    };
+  }
+  return results;
+}
+
+// One result per comment, in order; null where the model gave no usable
+// answer (the caller falls back to keyword scoring for those)
+export async function classifyComments(
+  comments: ClassifiableComment[],
+  options: AIClassifierOptions,
+  logger: ClassifierLogger
+): Promise<Array<AIClassification | null>> {
+  const cache = loadCache(options.cacheFile, logger);
+  const hashes = comments.map((comment) =>
+    hashComment(options.model, comment)
+  );
+  const results: Array<AIClassification | null> = hashes.map((hash) =>
+    cache[hash] ? { ...cache[hash], cached: true } : null
+  );
+
+  // Uncached comments, each once even if it appears several times
+  const pending = [
+    ...new Map(
+      hashes
+        .map((hash, index) => [hash, index] as const)
+        .filter(([hash]) => !cache[hash])
+    ).values(),
+  ];
+  if (pending.length === 0) return results;
+
+  const genai = new GoogleGenAI({ apiKey: options.apiKey });
+  const batchSize = Math.max(1, options.batchSize);
+  let cacheChanged = false;
+
+  for (let start = 0; start < pending.length; start += batchSize) {
+    const batch = pending.slice(start, start + batchSize);
+    try {
+      const result = await genai.models.generateContent({
+        model: options.model,
+        contents: buildPrompt(
+          batch.map((index) => comments[index]),
+          options.maxBodyLength
+        ),
+        config: { responseMimeType: "application/json" },
+      });
+      const entries = parseResponse(result.text || "", batch.length);
+      entries.forEach((entry, batchIndex) => {
+        if (!entry) return;
+        cache[hashes[batch[batchIndex]]] = entry;
+        cacheChanged = true;
+      });
+    } catch (error) {
+      logger.warn(
+        `AI classification failed for ${batch.length} comments: ${error}`
+      );
+    }
+  }
+
+  if (cacheChanged) {
+    saveCache(options.cacheFile, cache, options.maxCacheEntries, logger);
+  }
+
+  return hashes.map((hash, index) =>
+    results[index] || (cache[hash] ? { ...cache[hash], cached: false } : null)
+  );
+}
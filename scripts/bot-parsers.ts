@@ -0,0 +1,314 @@
+// Turn bot comments into structured findings instead of truncated Markdown.
+// Parsers are registered by bot login; the built-in ones cover Copilot
+// review summaries, the overview tables AI reviewers post, and Vercel /
+// Netlify deploy comments. A parser returns null for comments it doesn't
+// recognize, which then fall back to the plain bot summary.
+
+export interface BotComment {
+  author: string;
+  body: string;
+  path?: string;
+  line?: number;
+}
+
+export interface BotFinding {
+  text: string;
+  path?: string;
+  line?: number;
+  url?: string;
+}
+
+export interface BotParseResult {
+  // e.g. "Copilot review", "Vercel deployment"
+  title: string;
+  // Short prose summary, one line per entry
+  summary: string[];
+  findings: BotFinding[];
+}
+
+export type BotParser = (comment: BotComment) => BotParseResult | null;
+
+export interface BotParserRegistry {
+  get(login: string): BotParser | null;
+  parse(comment: BotComment): BotParseResult | null;
+}
+
+export interface BotParserLogger {
+  warn(message: string): void;
+}
+
+// Remove HTML comments and tags, Markdown emphasis and link syntax
+function toPlainText(text: string): string {
+  return text
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<br\s*\/?>/gi, ", ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`]+/g, "")
+    .replace(/\s+/g, " ")
+    .replace(/ ,/g, ",")
+    .trim();
+}
+
+// A Markdown link target, else the first bare URL
+function findUrl(text: string): string | undefined {
+  return (
+    text.match(/\((https?:\/\/[^\s)]+)\)/)?.[1] ||
+    text.match(/https?:\/\/[^\s)\]|>]+/)?.[0]
+  );
+}
+
+// Markdown tables as rows of raw cells, header row first
+function parseTables(body: string): string[][][] {
+  const tables: string[][][] = [];
+  let current: string[][] | null = null;
+
+  body.split("\n").forEach((line) => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith("|")) {
+      current = null;
+      return;
+    }
+    const cells = trimmed
+      .replace(/^\||\|$/g, "")
+      .split(/(?<!\\)\|/)
+      .map((cell) => cell.trim());
+    // Skip the |---|---| separator
+    if (cells.every((cell) => /^:?-+:?$/.test(cell))) return;
+    if (!current) {
+      current = [];
+      tables.push(current);
+    }
+    current.push(cells);
+  });
+
+  return tables;
+}
+
+// The first paragraph under a heading matching `heading`
+function findSection(body: string, heading: RegExp): string | null {
+  const lines = body.split("\n");
+  const start = lines.findIndex(
+    (line) => /^#{1,6}\s/.test(line.trim()) && heading.test(line)
+  );
+  if (start === -1) return null;
+
+  const paragraph: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    const trimmed = line.trim();
+    if (/^#{1,6}\s/.test(trimmed) || trimmed.startsWith("|")) break;
+    if (!trimmed || /^<\/?(details|summary)/i.test(trimmed)) {
+      if (paragraph.length > 0) break;
+      continue;
+    }
+    paragraph.push(trimmed);
+  }
+  const text = toPlainText(paragraph.join(" "));
+  return text || null;
+}
+
+// Bullet items under a heading matching `heading`
+function findBullets(body: string, heading: RegExp): string[] {
+  const lines = body.split("\n");
+  const start = lines.findIndex(
+    (line) => /^#{1,6}\s/.test(line.trim()) && heading.test(line)
+  );
+  if (start === -1) return [];
+
+  const bullets: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    const trimmed = line.trim();
+    if (/^#{1,6}\s/.test(trimmed)) break;
+    const match = trimmed.match(/^[-*+]\s+(.*)$/);
+    if (match) bullets.push(toPlainText(match[1]));
+  }
+  return bullets.filter(Boolean);
+}
+
+// Rows of every table with a file column: "path: the other columns"
+function findFileTableRows(body: string): BotFinding[] {
+  return parseTables(body).flatMap(([header, ...rows]) => {
+    const fileColumn = header.findIndex((cell) => /file/i.test(cell));
+    if (fileColumn === -1) return [];
+    return rows.flatMap((row) => {
+      const path = toPlainText(row[fileColumn] || "");
+      const text = row
+        .filter((_, index) => index !== fileColumn)
+        .map(toPlainText)
+        .filter(Boolean)
+        .join(" - ");
+      return text ? [{ text, path: path || undefined }] : [];
+    });
+  });
+}
+
+export function parseCopilotReview(
+  comment: BotComment
+): BotParseResult | null {
+  // Inline comments have nothing to restructure
+  if (comment.path) return null;
+  const { body } = comment;
+
+  const overview = findSection(body, /pull request overview/i);
+  const stats = body.match(
+    /Copilot reviewed (\d+) out of (\d+) changed files[^\n]*?generated (\d+)/i
+  );
+  const findings = findFileTableRows(body);
+
+  // Comments Copilot held back: "**src/a.ts:12**" followed by the text
+  const suppressed = /\*\*([^*\n:]+):(\d+)(?:-\d+)?\*\*\s*\n+([^\n]+)/g;
+  for (const match of body.matchAll(suppressed)) {
+    findings.push({
+      text: `(low confidence) ${toPlainText(match[3])}`,
+      path: match[1].trim(),
+      line: Number(match[2]),
+    });
+  }
+
+  if (!overview && !stats && findings.length === 0) return null;
+  return {
+    title: "Copilot review",
+    summary: [
+      ...(stats
+        ? [
+            `Reviewed ${stats[1]} of ${stats[2]} changed files, ${
+              stats[3]
+            } comment${stats[3] === "1" ? "" : "s"}`,
+          ]
+        : []),
+      ...(overview ? [overview] : []),
+    ],
+    findings,
+  };
+}
+
+// CodeRabbit, Sourcery, Gemini Code Assist and similar: a walkthrough or
+// summary paragraph, highlight bullets and a per-file changes table
+export function parseAIReviewOverview(
+  comment: BotComment
+): BotParseResult | null {
+  if (comment.path) return null;
+  const body = comment.body.replace(/<!--[\s\S]*?-->/g, "");
+
+  const overview = findSection(
+    body,
+    /walkthrough|summary|overview|reviewer's guide/i
+  );
+  const actionable = body.match(/Actionable comments posted:\s*(\d+)/i);
+  const findings: BotFinding[] = [
+    ...findBullets(body, /highlights/i).map((text) => ({ text })),
+    ...findFileTableRows(body),
+  ];
+
+  if (!overview && !actionable && findings.length === 0) return null;
+  return {
+    title: `${comment.author.replace(/\[bot\]$/, "")} review`,
+    summary: [
+      ...(actionable ? [`${actionable[1]} actionable comments posted`] : []),
+      ...(overview ? [overview] : []),
+    ],
+    findings,
+  };
+}
+
+// The "| Name | Status | Preview | ... |" table, one finding per project
+export function parseVercelComment(
+  comment: BotComment
+): BotParseResult | null {
+  const findings = parseTables(comment.body).flatMap(([header, ...rows]) => {
+    const statusColumn = header.findIndex((cell) => /status/i.test(cell));
+    const previewColumn = header.findIndex((cell) => /preview/i.test(cell));
+    if (statusColumn === -1) return [];
+    return rows.map((row) => {
+      const status = toPlainText(row[statusColumn] || "")
+        .replace(/\(?\s*Inspect\s*\)?/i, "")
+        .replace(/[^\w\s-]/g, "")
+        .trim();
+      return {
+        text: `${toPlainText(row[0] || "")}: ${status || "Unknown"}`,
+        url: previewColumn === -1 ? undefined : findUrl(row[previewColumn]),
+      };
+    });
+  });
+
+  return findings.length > 0
+    ? { title: "Vercel deployment", summary: [], findings }
+    : null;
+}
+
+// "Deploy Preview for *site* ready!" plus the link table
+export function parseNetlifyComment(
+  comment: BotComment
+): BotParseResult | null {
+  const match = toPlainText(comment.body).match(
+    /Deploy Preview for (\S+?) (ready|processing|failed|canceled|cancelled)/i
+  );
+  if (!match) return null;
+
+  const previewRow = parseTables(comment.body)
+    .flat()
+    .find((row) => /deploy preview/i.test(toPlainText(row[0] || "")));
+  const url =
+    (previewRow && findUrl(previewRow.slice(1).join(" "))) ||
+    comment.body.match(/https:\/\/deploy-preview-[^\s)\]|]+/)?.[0];
+  const status = match[2].toLowerCase();
+
+  return {
+    title: "Netlify deploy preview",
+    summary: [],
+    findings: [
+      {
+        text: `${match[1]}: ${status[0].toUpperCase()}${status.slice(1)}`,
+        url,
+      },
+    ],
+  };
+}
+
+export const BUILT_IN_BOT_PARSERS: Record<string, BotParser> = {
+  "copilot-pull-request-reviewer[bot]": parseCopilotReview,
+  "coderabbitai[bot]": parseAIReviewOverview,
+  "sourcery-ai[bot]": parseAIReviewOverview,
+  "gemini-code-assist[bot]": parseAIReviewOverview,
+  "vercel[bot]": parseVercelComment,
+  "netlify[bot]": parseNetlifyComment,
+};
+
+// Built-in parsers overlaid with the user's; a login mapped to null turns
+// its parser off. Logins match case-insensitively, with or without "[bot]".
+export function createBotParserRegistry(
+  customParsers: Record<string, BotParser | null> = {},
+  logger: BotParserLogger = { warn: () => {} }
+): BotParserRegistry {
+  const normalize = (login: string) =>
+    login.toLowerCase().replace(/\[bot\]$/, "");
+  const parsers = new Map<string, BotParser | null>();
+  Object.entries({ ...BUILT_IN_BOT_PARSERS, ...customParsers }).forEach(
+    ([login, parser]) => parsers.set(normalize(login), parser)
+  );
+
+  const registry: BotParserRegistry = {
+    get(login) {
+      return parsers.get(normalize(login)) || null;
+    },
+
+    parse(comment) {
+      const parser = registry.get(comment.author);
+      if (!parser || !comment.body) return null;
+      try {
+        const result = parser(comment);
+        if (!result) return null;
+        const summary = result.summary || [];
+        const findings = result.findings || [];
+        return summary.length > 0 || findings.length > 0
+          ? { ...result, summary, findings }
+          : null;
+      } catch (error) {
+        logger.warn(`Bot parser for ${comment.author} failed: ${error}`);
+        return null;
+      }
+    },
+  };
+
+  return registry;
+}
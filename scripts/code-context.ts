@@ -0,0 +1,145 @@
+// Code around a review comment as it is now: a window of the file at the
+// PR head centered on the commented lines, instead of the diff hunk the
+// reviewer saw (which often stops before the line in question).
+
+export interface CodeWindow {
+  path: string;
+  // Commit the lines were read from
+  ref: string;
+  // Line number of lines[0]
+  startLine: number;
+  lines: string[];
+  // The commented range, start_line..line for multi-line comments
+  targetStart: number;
+  targetEnd: number;
+  // True when the commented line no longer reads as it did in the review,
+  // and always for outdated comments
+  changed: boolean;
+  // The comment was made on an older commit; the window is where its line's
+  // text was found at the head
+  outdated: boolean;
+  // The commented line as the reviewer saw it, when known
+  reviewedLine: string | null;
+}
+
+export interface CodeWindowInput {
+  path: string;
+  ref: string;
+  fileLines: string[];
+  // GitHub's line / start_line at the head, null once outdated
+  line: number | null;
+  startLine?: number | null;
+  // The line in the commit the comment was made on, used to pick between
+  // matches when an outdated comment's line is searched for
+  originalLine?: number | null;
+  diffHunk?: string;
+  // Lines to show in total
+  size: number;
+}
+
+// The last line of a diff hunk is the one the comment is attached to
+export function getHunkTargetLine(diffHunk?: string): string | null {
+  if (!diffHunk) return null;
+  const lines = diffHunk.replace(/\n+$/, "").split("\n");
+  const last = lines[lines.length - 1];
+  if (!last || last.startsWith("@@") || last.startsWith("-")) return null;
+  return last.substring(1);
+}
+
+const normalizeLine = (line: string) => line.trim().replace(/\s+/g, " ");
+
+// Where the reviewed line's text is at the head: the only match, or the one
+// nearest originalLine. null when it's gone or can't be told apart.
+function findReviewedLine(
+  fileLines: string[],
+  reviewedLine: string,
+  originalLine?: number | null
+): number | null {
+  const wanted = normalizeLine(reviewedLine);
+  if (!wanted) return null;
+  const matches = fileLines.flatMap((line, index) =>
+    normalizeLine(line) === wanted ? [index + 1] : []
+  );
+  if (matches.length === 1) return matches[0];
+  if (matches.length === 0 || !originalLine) return null;
+  return matches.reduce((best, match) =>
+    Math.abs(match - originalLine) < Math.abs(best - originalLine)
+      ? match
+      : best
+  );
+}
+
+// Outdated comments have no line at the head, so their window is centered
+// on wherever the line they were made on is now. null when that can't be
+// found, leaving the diff hunk as the context.
+export function buildCodeWindow(input: CodeWindowInput): CodeWindow | null {
+  const { fileLines, size } = input;
+  const reviewedLine = getHunkTargetLine(input.diffHunk);
+  const outdated = input.line === null;
+  const targetEnd = outdated
+    ? reviewedLine !== null &&
+      findReviewedLine(fileLines, reviewedLine, input.originalLine)
+    : input.line;
+  if (!targetEnd || targetEnd > fileLines.length) return null;
+  // An outdated multi-line range may not have moved as one block
+  const targetStart =
+    !outdated && input.startLine && input.startLine < targetEnd
+      ? input.startLine
+      : targetEnd;
+
+  // Center the window on the commented range, clamped to the file
+  const span = targetEnd - targetStart + 1;
+  const before = Math.max(0, Math.floor((size - span) / 2));
+  const startLine = Math.max(
+    1,
+    Math.min(targetStart - before, fileLines.length - size + 1)
+  );
+  const endLine = Math.min(
+    fileLines.length,
+    Math.max(startLine + size - 1, targetEnd)
+  );
+
+  const changed =
+    outdated ||
+    (reviewedLine !== null &&
+      normalizeLine(reviewedLine) !== normalizeLine(fileLines[targetEnd - 1]));
+
+  return {
+    path: input.path,
+    ref: input.ref,
+    startLine,
+    lines: fileLines.slice(startLine - 1, endLine),
+    targetStart,
+    targetEnd,
+    changed,
+    outdated,
+    reviewedLine,
+  };
+}
+
+// Keep only `size` lines, ending at the commented line
+export function narrowCodeWindow(window: CodeWindow, size: number): CodeWindow {
+  const startLine = Math.max(window.startLine, window.targetEnd - size + 1);
+  const endLine = Math.max(startLine + size - 1, window.targetEnd);
+  return {
+    ...window,
+    startLine,
+    lines: window.lines.slice(
+      startLine - window.startLine,
+      endLine - window.startLine + 1
+    ),
+  };
+}
+
+// Numbered lines with the commented ones marked by ">"
+export function formatCodeWindow(window: CodeWindow): string {
+  const width = String(window.startLine + window.lines.length - 1).length;
+  return window.lines
+    .map((line, index) => {
+      const number = window.startLine + index;
+      const marker =
+        number >= window.targetStart && number <= window.targetEnd ? ">" : " ";
+      return `${marker} ${String(number).padStart(width)} | ${line}`;
+    })
+    .join("\n");
+}
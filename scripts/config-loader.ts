@@ -1,5 +1,17 @@
 import { existsSync } from "fs";
 import { join } from "path";
+import { BotParser } from "./bot-parsers";
+import {
+  CategoryRule,
+  CategoryScoringOptions,
+  FEEDBACK_CATEGORIES,
+  FeedbackCategory,
+} from "./feedback-categories";
+import {
+  PriorityRule,
+  PriorityScoringOptions,
+  PrioritySignal,
+} from "./priority-scoring";
 
 export interface JulesWorkflowConfig {
   output: {
@@ -12,20 +24,61 @@ export interface JulesWorkflowConfig {
     includeMetadata: boolean;
     includeLinearDiscussion: boolean;
     sectionOrder: string[];
+    // Path to a custom output template, relative to the project root
+    template: string | null;
+    // Approximate token budget for the formatted output (0 = unlimited)
+    maxTokens: number;
+    // List human feedback under its category in the action items
+    groupActionItemsByCategory: boolean;
   };
   filtering: {
     botUsers: string[];
+    // Extra parsers by bot login, (comment) => { title, summary, findings }
+    // or null; null turns a built-in parser off
+    botParsers: Record<string, BotParser | null>;
     enableDeduplication: boolean;
     includeBotFeedback: boolean;
     maxBotItemsPerPriority: number;
+    // Show near-identical bot comments once, with all their locations
+    clusterBotFeedback: boolean;
+    // How alike (0-1, after normalizing) bot comments must be to group
+    similarityThreshold: number;
     includeEmptySections: boolean;
+    resolvedThreads: "include" | "collapse" | "hide";
+    outdatedThreads: "include" | "collapse" | "hide";
   };
   priority: {
+    // Extra whole-word keywords, each scored with keywordWeight
     customKeywords: {
       HIGH: string[];
       MEDIUM: string[];
       LOW: string[];
     };
+    keywordWeight: number;
+    // Weighted keyword / regex rules; a rule with the same pattern as a
+    // default replaces it (weight 0 turns it off)
+    rules: PriorityRule[];
+    signals: {
+      reviewStates: Record<string, PrioritySignal>;
+      // GitHub author association (OWNER, MEMBER, COLLABORATOR, ...) or BOT
+      authorRoles: Record<string, PrioritySignal>;
+    };
+    // Words that cancel a keyword right after them ("not critical")
+    negationWords: string[];
+    // Lowest winning score; below it defaultPriority is used
+    minScore: number;
+    // Show why each comment got its priority in the Markdown output
+    explain: boolean;
+    // "ai" asks aiSummary.model for each comment's priority and category,
+    // falling back to the keyword rules without GEMINI_API_KEY
+    classifier: {
+      mode: "keywords" | "ai";
+      batchSize: number;
+      // Defaults to ~/.cache/jules-workflow/ai-classifications.json
+      cacheFile: string | null;
+      maxCacheEntries: number;
+      maxBodyLength: number;
+    };
     priorityEmojis: {
       HIGH: string;
       MEDIUM: string;
@@ -33,12 +86,27 @@ export interface JulesWorkflowConfig {
     };
     defaultPriority: "HIGH" | "MEDIUM" | "LOW";
   };
+  categories: {
+    // Extra whole-word keywords, each scored with keywordWeight
+    customKeywords: Record<FeedbackCategory, string[]>;
+    keywordWeight: number;
+    // Weighted keyword / regex rules; a rule with the same pattern as a
+    // default replaces it (weight 0 turns it off)
+    rules: CategoryRule[];
+    categoryEmojis: Record<FeedbackCategory, string>;
+  };
   codeContext: {
+    // "headFile" shows the file at the PR head around each comment;
+    // "diffHunk" shows the hunk the reviewer saw
+    source: "headFile" | "diffHunk";
+    // Files fetched per extraction; comments on others use the diff hunk
+    maxFilesToFetch: number;
     maxCodeLines: number;
     enableTruncation: boolean;
     showLineNumbers: boolean;
     showFilePaths: boolean;
     groupCommentsByFile: boolean;
+    includeDiffPatches: boolean;
   };
   aiSummary: {
     model: string;
@@ -69,7 +137,11 @@ export interface JulesWorkflowConfig {
       humanReviews: string;
       humanCodeComments: string;
       humanGeneralComments: string;
+      suggestedChanges: string;
       botFeedback: string;
+      prDiff: string;
+      ciStatus: string;
+      previouslyAddressed: string;
       actionItems: string;
       julesRules: string;
     };
@@ -77,6 +149,8 @@ export interface JulesWorkflowConfig {
   workflow: {
     enableInteractivePrompts: boolean;
     autoDetectPreference: "linear" | "pr";
+    multiplePRs: "prompt" | "first" | "all";
+    codingAgentAuthor: string;
     autoAssignReviewers: {
       enabled: boolean;
       defaultReviewer: string;
@@ -94,16 +168,37 @@ export interface JulesWorkflowConfig {
     showClipboardContent: boolean;
   };
   integrations: {
+    // Issue tracker linked to PRs and listed by list-issues
+    issueTracker: "linear" | "github" | "jira";
     linear: {
       branchNamePattern: string | null;
       includeAttachments: boolean;
       includeComments: boolean;
+      includeRelatedIssues: boolean;
+      includeProjectDescription: boolean;
     };
     github: {
       includePRDescription: boolean;
       includeIssueComments: boolean;
       includeReviewComments: boolean;
       includeReviews: boolean;
+      apiBaseUrl: string;
+      tokenEnvVars: string[];
+      useGhAuthToken: boolean;
+      maxItemsPerList: number;
+      includeDiffSummary: boolean;
+      includeCIStatus: boolean;
+      ciLogLines: number;
+    };
+    jira: {
+      // e.g. https://acme.atlassian.net; JIRA_BASE_URL overrides it
+      baseUrl: string | null;
+      // Project keys (e.g. ["PROJ"]) to look for in branch names; empty
+      // matches any uppercase key
+      projectKeys: string[];
+      // Issues listed by list-issues
+      readyIssuesJql: string;
+      maxReadyIssues: number;
     };
   };
   prManager: {
@@ -158,15 +253,25 @@ const DEFAULT_CONFIG: JulesWorkflowConfig = {
     sectionOrder: [
       "header",
       "summaryHeader",
+      "truncationWarning",
+      "budgetNotice",
+      "sinceLastCommit",
       "prOverview",
       "linearOverview",
+      "prDiff",
+      "ciStatus",
       "humanReviews",
       "humanCodeComments",
       "humanGeneralComments",
+      "suggestedChanges",
       "botFeedback",
+      "previouslyAddressed",
       "actionItems",
       "julesRules",
     ],
+    template: null,
+    maxTokens: 0,
+    groupActionItemsByCategory: false,
   },
   filtering: {
     botUsers: [
@@ -174,12 +279,21 @@ const DEFAULT_CONFIG: JulesWorkflowConfig = {
       "github-actions[bot]",
       "dependabot[bot]",
       "vercel[bot]",
+      "netlify[bot]",
+      "coderabbitai[bot]",
+      "sourcery-ai[bot]",
+      "gemini-code-assist[bot]",
       "linear[bot]",
     ],
+    botParsers: {},
     enableDeduplication: true,
     includeBotFeedback: true,
     maxBotItemsPerPriority: 3,
+    clusterBotFeedback: true,
+    similarityThreshold: 0.8,
     includeEmptySections: false,
+    resolvedThreads: "collapse",
+    outdatedThreads: "collapse",
   },
   priority: {
     customKeywords: {
@@ -187,6 +301,77 @@ const DEFAULT_CONFIG: JulesWorkflowConfig = {
       MEDIUM: [],
       LOW: [],
     },
+    keywordWeight: 2,
+    rules: [
+      { pattern: "security", priority: "HIGH", weight: 3 },
+      { pattern: /\bvulnerab\w*/i, priority: "HIGH", weight: 3 },
+      { pattern: "injection", priority: "HIGH", weight: 3 },
+      { pattern: "breaking", priority: "HIGH", weight: 3 },
+      { pattern: "critical", priority: "HIGH", weight: 3 },
+      { pattern: "urgent", priority: "HIGH", weight: 3 },
+      { pattern: "blocker", priority: "HIGH", weight: 3 },
+      { pattern: "data loss", priority: "HIGH", weight: 3 },
+      { pattern: /\bcrash(?:es|ed|ing)?\b/i, priority: "HIGH", weight: 3 },
+      { pattern: /\bbugs?\b/i, priority: "HIGH", weight: 2 },
+      { pattern: "broken", priority: "HIGH", weight: 2 },
+      { pattern: "regression", priority: "HIGH", weight: 2 },
+      { pattern: "race condition", priority: "HIGH", weight: 2 },
+      { pattern: "memory leak", priority: "HIGH", weight: 2 },
+      {
+        pattern: /\bfail(?:s|ed|ing|ures?)?\b/i,
+        priority: "HIGH",
+        weight: 2,
+      },
+      // "error handling" and "error message" are usually improvements
+      {
+        pattern: /\berrors?\b(?!\s+(?:handling|messages?)\b)/i,
+        priority: "HIGH",
+        weight: 1,
+      },
+      { pattern: "performance", priority: "MEDIUM", weight: 2 },
+      {
+        pattern: /\boptimi[sz](?:e[sd]?|ing|ation)\b/i,
+        priority: "MEDIUM",
+        weight: 2,
+      },
+      { pattern: "error handling", priority: "MEDIUM", weight: 2 },
+      { pattern: "edge case", priority: "MEDIUM", weight: 2 },
+      { pattern: /\brefactor(?:ing|ed)?\b/i, priority: "MEDIUM", weight: 1 },
+      { pattern: "improvement", priority: "MEDIUM", weight: 1 },
+      { pattern: "consider", priority: "MEDIUM", weight: 1 },
+      { pattern: "should", priority: "MEDIUM", weight: 1 },
+      { pattern: /\bnit(?:pick(?:ing|y)?)?\b/i, priority: "LOW", weight: 3 },
+      { pattern: "non-blocking", priority: "LOW", weight: 3 },
+      { pattern: "style", priority: "LOW", weight: 2 },
+      { pattern: "formatting", priority: "LOW", weight: 2 },
+      { pattern: "typo", priority: "LOW", weight: 2 },
+      { pattern: "minor", priority: "LOW", weight: 2 },
+      { pattern: "cosmetic", priority: "LOW", weight: 2 },
+      { pattern: "optional", priority: "LOW", weight: 2 },
+      { pattern: "suggestion", priority: "LOW", weight: 1 },
+    ],
+    signals: {
+      reviewStates: {
+        CHANGES_REQUESTED: { priority: "HIGH", weight: 3 },
+        APPROVED: { priority: "LOW", weight: 1 },
+      },
+      authorRoles: {
+        OWNER: { priority: "MEDIUM", weight: 1 },
+        MEMBER: { priority: "MEDIUM", weight: 1 },
+        COLLABORATOR: { priority: "MEDIUM", weight: 1 },
+        BOT: { priority: "LOW", weight: 1 },
+      },
+    },
+    negationWords: ["not", "no", "non", "never", "without", "hardly", "nor"],
+    minScore: 1,
+    explain: false,
+    classifier: {
+      mode: "keywords",
+      batchSize: 20,
+      cacheFile: null,
+      maxCacheEntries: 5000,
+      maxBodyLength: 2000,
+    },
     priorityEmojis: {
       HIGH: "🚨",
       MEDIUM: "⚠️",
@@ -194,12 +379,116 @@ const DEFAULT_CONFIG: JulesWorkflowConfig = {
     },
     defaultPriority: "MEDIUM",
   },
+  categories: {
+    customKeywords: {
+      bug: [],
+      security: [],
+      tests: [],
+      performance: [],
+      style: [],
+      docs: [],
+      question: [],
+    },
+    keywordWeight: 2,
+    rules: [
+      { pattern: /\bbugs?\b/i, category: "bug", weight: 3 },
+      { pattern: /\bcrash(?:es|ed|ing)?\b/i, category: "bug", weight: 3 },
+      { pattern: "broken", category: "bug", weight: 2 },
+      { pattern: "regression", category: "bug", weight: 2 },
+      { pattern: "race condition", category: "bug", weight: 2 },
+      { pattern: "memory leak", category: "bug", weight: 2 },
+      { pattern: "off-by-one", category: "bug", weight: 2 },
+      { pattern: "null pointer", category: "bug", weight: 2 },
+      { pattern: "edge case", category: "bug", weight: 1 },
+      { pattern: "error handling", category: "bug", weight: 1 },
+      { pattern: "incorrect", category: "bug", weight: 1 },
+      { pattern: "wrong", category: "bug", weight: 1 },
+      { pattern: "security", category: "security", weight: 4 },
+      { pattern: /\bvulnerab\w*/i, category: "security", weight: 4 },
+      { pattern: "injection", category: "security", weight: 3 },
+      { pattern: /\b(?:xss|csrf|ssrf)\b/i, category: "security", weight: 3 },
+      { pattern: /\bsecrets?\b/i, category: "security", weight: 2 },
+      { pattern: /\bcredentials?\b/i, category: "security", weight: 2 },
+      {
+        pattern: /\bauth(?:entication|orization)?\b/i,
+        category: "security",
+        weight: 1,
+      },
+      { pattern: /\bsaniti[sz]\w*/i, category: "security", weight: 1 },
+      {
+        pattern: /\b(?:unit |integration )?tests?\b/i,
+        category: "tests",
+        weight: 3,
+      },
+      { pattern: "testing", category: "tests", weight: 2 },
+      { pattern: "coverage", category: "tests", weight: 2 },
+      { pattern: "flaky", category: "tests", weight: 2 },
+      {
+        pattern: /\b(?:mocks?|fixtures?|specs?)\b/i,
+        category: "tests",
+        weight: 1,
+      },
+      { pattern: /\bassert(?:s|ion|ions)?\b/i, category: "tests", weight: 1 },
+      { pattern: "performance", category: "performance", weight: 3 },
+      {
+        pattern: /\boptimi[sz](?:e[sd]?|ing|ation)\b/i,
+        category: "performance",
+        weight: 2,
+      },
+      { pattern: "slow", category: "performance", weight: 2 },
+      { pattern: "latency", category: "performance", weight: 2 },
+      { pattern: "n+1", category: "performance", weight: 2 },
+      {
+        pattern: /\bcach(?:e|es|ed|ing)\b/i,
+        category: "performance",
+        weight: 1,
+      },
+      { pattern: "memory usage", category: "performance", weight: 1 },
+      { pattern: "style", category: "style", weight: 2 },
+      { pattern: "formatting", category: "style", weight: 2 },
+      { pattern: /\bnit(?:pick(?:ing|y)?)?\b/i, category: "style", weight: 2 },
+      { pattern: "typo", category: "style", weight: 2 },
+      { pattern: "naming", category: "style", weight: 2 },
+      { pattern: "rename", category: "style", weight: 2 },
+      { pattern: /\blint(?:er|ing)?\b/i, category: "style", weight: 2 },
+      { pattern: "readability", category: "style", weight: 1 },
+      { pattern: "whitespace", category: "style", weight: 1 },
+      { pattern: "indentation", category: "style", weight: 1 },
+      { pattern: /\bdocs?\b/i, category: "docs", weight: 3 },
+      { pattern: "documentation", category: "docs", weight: 3 },
+      { pattern: "readme", category: "docs", weight: 3 },
+      {
+        pattern: /\b(?:jsdoc|docstrings?|changelog)\b/i,
+        category: "docs",
+        weight: 2,
+      },
+      { pattern: /\bcomments?\b/i, category: "docs", weight: 1 },
+      // A comment that ends with a question
+      { pattern: /\?\s*$/, category: "question", weight: 2 },
+      { pattern: "why", category: "question", weight: 1 },
+      { pattern: "could you explain", category: "question", weight: 2 },
+      { pattern: /\bwonder(?:ing)?\b/i, category: "question", weight: 1 },
+      { pattern: "curious", category: "question", weight: 1 },
+    ],
+    categoryEmojis: {
+      bug: "🐛",
+      security: "🔒",
+      tests: "🧪",
+      performance: "⚡",
+      style: "🎨",
+      docs: "📝",
+      question: "❓",
+    },
+  },
   codeContext: {
+    source: "headFile",
+    maxFilesToFetch: 25,
     maxCodeLines: 10,
     enableTruncation: true,
     showLineNumbers: true,
     showFilePaths: true,
     groupCommentsByFile: true,
+    includeDiffPatches: false,
   },
   aiSummary: {
     model: "gemini-2.0-flash-001",
@@ -231,7 +520,11 @@ const DEFAULT_CONFIG: JulesWorkflowConfig = {
       humanReviews: "**HUMAN REVIEWS** 🔥",
       humanCodeComments: "**HUMAN INLINE CODE COMMENTS** 💻",
       humanGeneralComments: "**HUMAN DISCUSSION COMMENTS** 💬",
+      suggestedChanges: "**SUGGESTED CHANGES** 🩹",
       botFeedback: "**BOT FEEDBACK SUMMARY** 🤖",
+      prDiff: "**CHANGED FILES** 📁",
+      ciStatus: "**CI STATUS** 🧪",
+      previouslyAddressed: "**PREVIOUSLY ADDRESSED** ✅",
       actionItems: "**PRIORITIZED ACTION ITEMS** 📋",
       julesRules: "**Jules Rules**",
     },
@@ -239,6 +532,8 @@ const DEFAULT_CONFIG: JulesWorkflowConfig = {
   workflow: {
     enableInteractivePrompts: true,
     autoDetectPreference: "linear",
+    multiplePRs: "prompt",
+    codingAgentAuthor: "google-labs-jules",
     autoAssignReviewers: {
       enabled: false,
       defaultReviewer: "copilot",
@@ -256,16 +551,33 @@ const DEFAULT_CONFIG: JulesWorkflowConfig = {
     showClipboardContent: true,
   },
   integrations: {
+    issueTracker: "linear",
     linear: {
       branchNamePattern: null,
       includeAttachments: true,
       includeComments: true,
+      includeRelatedIssues: true,
+      includeProjectDescription: false,
     },
     github: {
       includePRDescription: true,
       includeIssueComments: true,
       includeReviewComments: true,
       includeReviews: true,
+      apiBaseUrl: "https://api.github.com",
+      tokenEnvVars: ["GITHUB_TOKEN", "GH_TOKEN"],
+      useGhAuthToken: true,
+      maxItemsPerList: 1000,
+      includeDiffSummary: true,
+      includeCIStatus: true,
+      ciLogLines: 20,
+    },
+    jira: {
+      baseUrl: null,
+      projectKeys: [],
+      readyIssuesJql:
+        "statusCategory != Done ORDER BY priority DESC, updated DESC",
+      maxReadyIssues: 100,
     },
   },
   prManager: {
@@ -303,20 +615,25 @@ const DEFAULT_CONFIG: JulesWorkflowConfig = {
   },
 };
 
+// Arrays where the order matters, so a user's list replaces the default
+// instead of being added to it
+const REPLACED_ARRAYS = ["integrations.github.tokenEnvVars"];
+
 // Deep merge two objects
-function deepMerge(target: any, source: any): any {
+function deepMerge(target: any, source: any, path: string = ""): any {
   const result = { ...target };
 
   for (const key in source) {
+    const keyPath = path ? `${path}.${key}` : key;
     if (
       source[key] !== null &&
       typeof source[key] === "object" &&
       !Array.isArray(source[key])
     ) {
-      result[key] = deepMerge(target[key] || {}, source[key]);
+      result[key] = deepMerge(target[key] || {}, source[key], keyPath);
     } else if (Array.isArray(source[key])) {
       // For arrays, merge by concatenating unique values
-      if (Array.isArray(target[key])) {
+      if (Array.isArray(target[key]) && !REPLACED_ARRAYS.includes(keyPath)) {
         result[key] = [...new Set([...target[key], ...source[key]])];
       } else {
         result[key] = source[key];
@@ -376,44 +693,6 @@ export function loadConfig(): JulesWorkflowConfig {
   // Merge user config with defaults
   const mergedConfig = deepMerge(DEFAULT_CONFIG, userConfig);
 
-  // Special handling for priority keywords - merge with defaults
-  const defaultPriorityKeywords = {
-    HIGH: [
-      "security",
-      "breaking",
-      "critical",
-      "urgent",
-      "error",
-      "fail",
-      "bug",
-      "broken",
-    ],
-    MEDIUM: [
-      "performance",
-      "optimization",
-      "refactor",
-      "improvement",
-      "consider",
-      "should",
-    ],
-    LOW: ["nitpick", "style", "formatting", "typo", "minor", "suggestion"],
-  };
-
-  mergedConfig.priority.customKeywords = {
-    HIGH: [
-      ...defaultPriorityKeywords.HIGH,
-      ...mergedConfig.priority.customKeywords.HIGH,
-    ],
-    MEDIUM: [
-      ...defaultPriorityKeywords.MEDIUM,
-      ...mergedConfig.priority.customKeywords.MEDIUM,
-    ],
-    LOW: [
-      ...defaultPriorityKeywords.LOW,
-      ...mergedConfig.priority.customKeywords.LOW,
-    ],
-  };
-
   return mergedConfig;
 }
 
@@ -433,15 +712,47 @@ export function reloadConfig(): JulesWorkflowConfig {
   return getConfig();
 }
 
-// Helper function to get combined priority keywords
-export function getAllPriorityKeywords(config: JulesWorkflowConfig) {
+// Scoring options for priority-scoring.ts: the weighted rules followed by
+// customKeywords, so a custom keyword overrides a default rule for it
+export function getPriorityScoringOptions(
+  config: JulesWorkflowConfig
+): PriorityScoringOptions {
+  const { priority } = config;
+  const keywordRules: PriorityRule[] = (["HIGH", "MEDIUM", "LOW"] as const)
+    .flatMap((level) =>
+      priority.customKeywords[level].map((keyword) => ({
+        pattern: keyword,
+        priority: level,
+        weight: priority.keywordWeight,
+      }))
+    );
   return {
-    HIGH: config.priority.customKeywords.HIGH,
-    MEDIUM: config.priority.customKeywords.MEDIUM,
-    LOW: config.priority.customKeywords.LOW,
+    rules: [...priority.rules, ...keywordRules],
+    reviewStates: priority.signals.reviewStates,
+    authorRoles: priority.signals.authorRoles,
+    negationWords: priority.negationWords,
+    minScore: priority.minScore,
+    defaultPriority: priority.defaultPriority,
   };
 }
 
+// Built-in and configured category rules plus the custom keywords, in the
+// form detectCategory expects
+export function getCategoryScoringOptions(
+  config: JulesWorkflowConfig
+): CategoryScoringOptions {
+  const { categories } = config;
+  const keywordRules: CategoryRule[] = FEEDBACK_CATEGORIES.flatMap(
+    (category) =>
+      (categories.customKeywords[category] || []).map((keyword) => ({
+        pattern: keyword,
+        category,
+        weight: categories.keywordWeight,
+      }))
+  );
+  return { rules: [...categories.rules, ...keywordRules] };
+}
+
 // Check if config file was found
 export function isConfigFound(): boolean {
   return configFound;
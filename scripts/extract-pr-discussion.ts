@@ -1,17 +1,48 @@
 #!/usr/bin/env tsx
-import { execSync } from "child_process";
-import { LinearClient } from "@linear/sdk";
 import clipboardy from "clipboardy";
 import dotenv from "dotenv";
 import { GoogleGenAI } from "@google/genai";
 import { createInterface } from "readline";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
 import {
   getConfig,
-  getAllPriorityKeywords,
+  getPriorityScoringOptions,
+  getCategoryScoringOptions,
   JulesWorkflowConfig,
   isConfigFound,
   showConfigWarning,
 } from "./config-loader";
+import {
+  findLastCommitByAuthor,
+  getGitHubClient,
+  getRepoFromGitRemote,
+  GitHubReviewComment,
+} from "./github-client";
+import { parseInput } from "./input-parser";
+import { createIssueTracker, LinkedIssue, TrackerIssue } from "./issue-tracker";
+import { BotParseResult, createBotParserRegistry } from "./bot-parsers";
+import { clusterBySimilarity } from "./feedback-clustering";
+import { scorePriority } from "./priority-scoring";
+import { classifyComments, getDefaultCacheFile } from "./ai-classifier";
+import {
+  buildCodeWindow,
+  CodeWindow,
+  formatCodeWindow,
+  narrowCodeWindow,
+} from "./code-context";
+import {
+  detectCategory,
+  FEEDBACK_CATEGORIES,
+  FeedbackCategory,
+} from "./feedback-categories";
+import {
+  buildUnifiedPatch,
+  formatSuggestionDiff,
+  parseSuggestions,
+  Suggestion,
+} from "./suggestions";
+import { renderTemplate } from "./template-engine";
 
 // Load environment variables from .env file
 dotenv.config();
@@ -27,6 +58,16 @@ if (!isConfigFound()) {
 // Global flag to control logging output
 let suppressLogs = false;
 
+// Global flag to only keep feedback newer than the coding agent's last commit
+let sinceLastCommit = false;
+
+// Cutoff passed with --since, so the PR's commits needn't be fetched again
+let sinceDate: string | null = null;
+
+// Linked PRs chosen on the command line (--all-prs / --prs 12,15)
+let includeAllPRs = false;
+let selectedPRNumbers: number[] = [];
+
 const logInfo = (message: string) => {
   if (!suppressLogs && config.display.enableColors)
     console.log("\x1b[36m%s\x1b[0m", message);
@@ -47,6 +88,17 @@ const logWarning = (message: string) => {
     console.warn("\x1b[33m%s\x1b[0m", message);
   else if (!suppressLogs) console.warn(message);
 }; // Yellow
+// Warnings shown even when logs are suppressed: scripts that run the
+// extractor capture its stdout but pass stderr through
+const logNotice = (message: string) => {
+  if (config.display.enableColors) console.warn("\x1b[33m%s\x1b[0m", message);
+  else console.warn(message);
+}; // Yellow
+
+const issueTracker = createIssueTracker({ info: logInfo, warn: logWarning });
+const botParsers = createBotParserRegistry(config.filtering.botParsers, {
+  warn: logWarning,
+});
 
 // Handle both npm script usage and direct CLI usage
 function normalizeArgs(args: string[]): string[] {
@@ -69,58 +121,104 @@ interface PRInfo {
   branch?: string;
 }
 
-interface LinearIssueInfo {
-  id: string;
-  title: string;
-  description?: string;
-  comments: Array<{
-    body: string;
-    user: {
-      name: string;
-    };
-    createdAt: Date;
-  }>;
-  attachments: Array<{
-    url: string;
-    title?: string;
-  }>;
-  branchName?: string;
-  url: string;
-  state: string;
-  priority: number;
-  priorityLabel: string;
-  assignee: {
-    name: string;
-    email: string;
-  } | null;
-  team: string;
-  labels: string[];
-}
-
 interface Comment {
+  id?: number;
   author: string;
   body: string;
   path?: string;
-  line?: number;
+  // null once the comment is outdated
+  line?: number | null;
+  start_line?: number | null;
+  // Where the comment was made, in the commit it was made on
+  original_line?: number | null;
+  side?: string;
   diff_hunk?: string;
+  // The file at the PR head around the comment (codeContext.source
+  // "headFile"); unset when it couldn't be fetched
+  code_context?: CodeWindow | null;
+  in_reply_to_id?: number;
   created_at?: string;
   state?: string;
+  // GitHub's author_association: OWNER, MEMBER, CONTRIBUTOR, ...
+  author_association?: string;
   isBot?: boolean;
+  isResolved?: boolean;
+  isOutdated?: boolean;
   priority?: "HIGH" | "MEDIUM" | "LOW";
+  // Why the comment got its priority (rules and signals that scored)
+  priorityReasons?: string[];
+  category?: FeedbackCategory | null;
+  // Replies in a review thread, attached to the thread's root comment
+  replies?: Comment[];
+}
+
+interface ChangedFile {
+  path: string;
+  previousPath?: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  patch?: string;
+}
+
+interface CICheck {
+  name: string;
+  state: "failing" | "pending" | "passing";
+  // Check run conclusion or commit status state, as reported by GitHub
+  conclusion: string;
+  url: string | null;
+  summary: string | null;
+  // Error lines from the job log, for failed GitHub Actions jobs
+  logExcerpt: string[];
 }
 
 interface ExtractedData {
   prInfo: PRInfo | null;
-  linearInfo: LinearIssueInfo | null;
+  linearInfo: TrackerIssue | null;
   prDetails?: any;
-  reviews: any[];
-  reviewComments: any[];
-  issueComments: any[];
+  reviews: Comment[];
+  reviewComments: Comment[];
+  issueComments: Comment[];
+  changedFiles: ChangedFile[];
+  ciChecks: CICheck[];
+  truncatedLists: string[];
+  sinceCommit?: { sha: string | null; date: string } | null;
+  // Other PRs linked to the same Linear issue, rendered under their own
+  // headings after the primary PR
+  additionalPRs: ExtractedData[];
+}
+
+interface ClassifiedFeedback {
+  humanReviews: Comment[];
+  botReviews: Comment[];
+  // Thread roots (with replies) that have a human participant
+  humanReviewComments: Comment[];
+  // Comments from bot-only threads, flattened for the bot summary
+  botReviewComments: Comment[];
+  botReviewThreads: Comment[];
+  humanIssueComments: Comment[];
+  botIssueComments: Comment[];
+  // Resolved/outdated thread roots shown in "Previously addressed"
+  addressedReviewComments: Comment[];
+  // ```suggestion blocks from active inline threads
+  suggestions: Suggestion[];
+  // Bot comments a bot parser could structure, shown instead of the
+  // comment text
+  botReports: BotReport[];
+}
+
+interface BotReport {
+  comment: Comment;
+  result: BotParseResult;
 }
 
 // Use configuration instead of hardcoded constants
 const getBotUsers = () => config.filtering.botUsers;
-const getPriorityKeywords = () => getAllPriorityKeywords(config);
+const isDiffSummaryEnabled = () =>
+  config.integrations.github.includeDiffSummary &&
+  config.output.sectionOrder.includes("prDiff");
+const getPriorityOptions = () => getPriorityScoringOptions(config);
+const getCategoryOptions = () => getCategoryScoringOptions(config);
 
 // Create readline interface for user input - moved outside functions for proper lifecycle
 let rl: any = null;
@@ -129,7 +227,8 @@ function createReadlineInterface() {
   if (!rl) {
     rl = createInterface({
       input: process.stdin,
-      output: process.stdout,
+      // stdout carries the output document when logs are suppressed
+      output: suppressLogs ? process.stderr : process.stdout,
     });
   }
   return rl;
@@ -142,29 +241,247 @@ function closeReadlineInterface() {
   }
 }
 
-function detectPriority(body: string): "HIGH" | "MEDIUM" | "LOW" {
-  const lowerBody = body.toLowerCase();
-  const priorityKeywords = getPriorityKeywords();
-
-  for (const [priority, keywords] of Object.entries(priorityKeywords)) {
-    if (keywords.some((keyword) => lowerBody.includes(keyword))) {
-      return priority as "HIGH" | "MEDIUM" | "LOW";
-    }
-  }
+// Score a comment's priority from its text, review state and author role,
+// and pick its category, keeping whatever is already set (e.g. by the AI
+// classifier). Set isBot first so bots count as "BOT".
+function withPriority<T extends Comment>(comment: T): T {
+  const classified =
+    comment.category === undefined
+      ? {
+          ...comment,
+          category: detectCategory(comment.body, getCategoryOptions()),
+        }
+      : comment;
+  if (classified.priority) return classified;
+  const { priority, reasons } = scorePriority(
+    comment.body,
+    {
+      reviewState: comment.state,
+      authorRole: comment.isBot ? "BOT" : comment.author_association,
+    },
+    getPriorityOptions()
+  );
+  return { ...classified, priority, priorityReasons: reasons };
+}
 
-  return config.priority.defaultPriority;
+function formatPriorityReasons(comment: Comment): string {
+  if (!config.priority.explain || !comment.priorityReasons?.length) return "";
+  return `**Why:** ${comment.priorityReasons.join("; ")}\n`;
 }
 
+// keepEnd keeps the hunk's last lines, which end at the commented line
 function truncateCodeContext(
   diffHunk: string,
-  maxLines: number = config.codeContext.maxCodeLines
+  maxLines: number = config.codeContext.maxCodeLines,
+  keepEnd = false
 ): string {
   if (!config.codeContext.enableTruncation) return diffHunk;
 
   const lines = diffHunk.split("\n");
   if (lines.length <= maxLines) return diffHunk;
 
-  return lines.slice(0, maxLines).join("\n") + "\n... (truncated)";
+  return keepEnd
+    ? "... (truncated)\n" + lines.slice(-maxLines).join("\n")
+    : lines.slice(0, maxLines).join("\n") + "\n... (truncated)";
+}
+
+// The code around an inline comment: the file as it is now when it was
+// fetched, with a warning if the commented line has changed since the
+// review or the comment is outdated, else the diff hunk the reviewer saw
+function formatCodeContext(comment: Comment): string {
+  const window = comment.code_context;
+  if (!window) {
+    if (!comment.diff_hunk) return "";
+    if (comment.line === null) {
+      // Outdated and not found at the head: the hunk ends at the commented
+      // line, so keep its tail
+      const hunk = truncateCodeContext(
+        comment.diff_hunk,
+        config.codeContext.maxCodeLines,
+        true
+      );
+      return `**Code Context** (outdated, as reviewed):\n\`\`\`\n${hunk}\n\`\`\`\n`;
+    }
+    return `**Code Context:**\n\`\`\`\n${truncateCodeContext(
+      comment.diff_hunk
+    )}\n\`\`\`\n`;
+  }
+
+  let section = `**Code Context** (${window.path} at ${window.ref.substring(
+    0,
+    7
+  )}):\n\`\`\`\n${formatCodeWindow(window)}\n\`\`\`\n`;
+  if (window.outdated) {
+    section += `⚠️ **Outdated comment** - made on an older commit; the reviewed line \`${window.reviewedLine!.trim()}\` is now line ${
+      window.targetEnd
+    }\n`;
+  } else if (window.changed && window.reviewedLine !== null) {
+    section += `⚠️ **Changed since this comment** - line ${
+      window.targetEnd
+    } read \`${window.reviewedLine.trim()}\` when reviewed\n`;
+  }
+  return section;
+}
+
+// Decide how a review comment's thread is rendered from its resolution state
+function getThreadDisposition(
+  comment: Comment
+): "include" | "collapse" | "hide" {
+  const dispositions: Array<"include" | "collapse" | "hide"> = [];
+  if (comment.isResolved) dispositions.push(config.filtering.resolvedThreads);
+  if (comment.isOutdated) dispositions.push(config.filtering.outdatedThreads);
+
+  // The most restrictive setting wins when a thread is both
+  if (dispositions.includes("hide")) return "hide";
+  if (dispositions.includes("collapse")) return "collapse";
+  return "include";
+}
+
+// Group inline comments into threads: each root carries its replies in order,
+// and the thread's priority is the highest priority anywhere in it
+function buildCommentThreads(comments: Comment[]): Comment[] {
+  const priorityOrder = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+  const byId = new Map<number, Comment>();
+  comments.forEach((comment) => {
+    if (comment.id !== undefined) byId.set(comment.id, comment);
+  });
+
+  const findRoot = (comment: Comment): Comment => {
+    let current = comment;
+    const visited = new Set<Comment>();
+    while (
+      current.in_reply_to_id !== undefined &&
+      byId.has(current.in_reply_to_id) &&
+      !visited.has(current)
+    ) {
+      visited.add(current);
+      current = byId.get(current.in_reply_to_id)!;
+    }
+    return current;
+  };
+
+  const threads = new Map<Comment, Comment[]>();
+  comments.forEach((comment) => {
+    const root = findRoot(comment);
+    if (!threads.has(root)) threads.set(root, []);
+    if (root !== comment) threads.get(root)!.push(comment);
+  });
+
+  return Array.from(threads.entries()).map(([root, replies]) => {
+    const sortedReplies = replies.sort((a, b) =>
+      (a.created_at || "").localeCompare(b.created_at || "")
+    );
+    // The thread takes the priority of its most urgent comment
+    const deciding = sortedReplies.reduce(
+      (highest, comment) =>
+        priorityOrder[comment.priority!] < priorityOrder[highest.priority!]
+          ? comment
+          : highest,
+      root
+    );
+    const priorityReasons =
+      deciding === root
+        ? root.priorityReasons
+        : deciding.priorityReasons?.map(
+            (reason) => `${reason} (reply by ${deciding.author})`
+          );
+    return {
+      ...root,
+      priority: deciding.priority,
+      priorityReasons,
+      // Replies often clarify an uncategorized root ("needs a test")
+      category:
+        root.category ||
+        sortedReplies.find((reply) => reply.category)?.category ||
+        null,
+      replies: sortedReplies,
+    };
+  });
+}
+
+function formatBotReport({ comment, result }: BotReport): string {
+  let section = `**🤖 ${result.title}** (${comment.author})\n`;
+  result.summary.forEach((line) => (section += `${line}\n`));
+  result.findings.forEach((finding) => {
+    const location = finding.path
+      ? `${finding.path}${finding.line ? `:${finding.line}` : ""}: `
+      : "";
+    section += `• ${location}${finding.text}${
+      finding.url ? ` - ${finding.url}` : ""
+    }\n`;
+  });
+  return `${section}\n`;
+}
+
+// "author: text..." for a bot comment, plus where else it was said when it
+// stands for a cluster of near-duplicates
+function formatBotCluster(representative: Comment, items: Comment[]): string {
+  const summary = `${representative.author}: ${representative.body.substring(
+    0,
+    100
+  )}...`;
+  if (items.length === 1) return summary;
+
+  const locations = items
+    .filter((comment) => comment.path)
+    .sort(
+      (a, b) => a.path!.localeCompare(b.path!) || (a.line || 0) - (b.line || 0)
+    )
+    .map(
+      (comment) => `${comment.path}${comment.line ? `:${comment.line}` : ""}`
+    );
+  const others = items.length - locations.length;
+  const where =
+    others > 0
+      ? [...locations, `${others} general comment${others === 1 ? "" : "s"}`]
+      : locations;
+  return `${summary} (×${items.length}: ${where.join(", ")})`;
+}
+
+// Comments per category, plus "other" for uncategorized ones
+function countCategories(
+  comments: Comment[]
+): Record<FeedbackCategory | "other", number> {
+  const counts = Object.fromEntries(
+    [...FEEDBACK_CATEGORIES, "other"].map((category) => [category, 0])
+  ) as Record<FeedbackCategory | "other", number>;
+  comments.forEach((comment) => counts[comment.category || "other"]++);
+  return counts;
+}
+
+// Human feedback listed under each category, so one category (say, all
+// test feedback) can be handed to Jules as a single task
+function formatActionItemsByCategory(comments: Comment[]): string {
+  const priorityOrder = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+  let section = "";
+  [...FEEDBACK_CATEGORIES, null].forEach((category) => {
+    const items = comments
+      .filter((comment) => (comment.category || null) === category)
+      .sort((a, b) => priorityOrder[a.priority!] - priorityOrder[b.priority!]);
+    if (items.length === 0) return;
+
+    section += category
+      ? `\n${config.categories.categoryEmojis[category]} **${category.toUpperCase()}** (${items.length})\n`
+      : `\n🗂️ **OTHER** (${items.length})\n`;
+    items.forEach((comment) => {
+      const location = comment.path
+        ? `${comment.path}${comment.line ? `:${comment.line}` : ""} `
+        : "";
+      const firstLine = comment.body.split("\n")[0].substring(0, 100);
+      section += `• ${config.priority.priorityEmojis[comment.priority!]} ${location}${comment.author}: ${firstLine}\n`;
+    });
+  });
+  return section;
+}
+
+function formatThreadReplies(comment: Comment): string {
+  if (!comment.replies || comment.replies.length === 0) return "";
+
+  let replies = `**Replies:**\n`;
+  comment.replies.forEach((reply) => {
+    replies += `  ↳ **${reply.author}:** ${reply.body}\n`;
+  });
+  return replies;
 }
 
 function deduplicateComments(comments: Comment[]): Comment[] {
@@ -179,16 +496,19 @@ function deduplicateComments(comments: Comment[]): Comment[] {
   });
 }
 
+// "commit abc1234 (date)", or just the date for a --since cutoff
+function describeCutoff(cutoff: {
+  sha: string | null;
+  date: string;
+}): string {
+  return cutoff.sha
+    ? `commit ${cutoff.sha.substring(0, 7)} (${cutoff.date})`
+    : cutoff.date;
+}
+
 async function getCurrentRepoInfo(): Promise<{ owner: string; repo: string }> {
   try {
-    const remoteUrl = execSync("git config --get remote.origin.url", {
-      encoding: "utf-8",
-    }).trim();
-    const match = remoteUrl.match(/github\.com[:/]([^/]+)\/(.+?)(?:\.git)?$/);
-    if (!match) {
-      throw new Error("Could not parse GitHub repository from remote URL");
-    }
-    return { owner: match[1], repo: match[2] };
+    return getRepoFromGitRemote();
   } catch (error) {
     logError("Failed to get repository information from git remote");
     throw error;
@@ -205,119 +525,94 @@ async function promptUser(question: string): Promise<string> {
   });
 }
 
-async function fetchLinearIssue(
-  issueId: string
-): Promise<LinearIssueInfo | null> {
-  const linearApiKey = process.env.LINEAR_API_KEY;
-  if (!linearApiKey) {
-    logWarning("LINEAR_API_KEY not found in environment variables");
-    return null;
-  }
-
-  const linear = new LinearClient({
-    apiKey: linearApiKey,
-  });
-
-  try {
-    const issue = await linear.issue(issueId);
+function findPRsFromLinearAttachments(linearInfo: TrackerIssue): PRInfo[] {
+  const prs: PRInfo[] = [];
 
-    if (!issue) {
-      return null;
-    }
+  // Check attachments for GitHub PR links, on github.com or an Enterprise host
+  for (const attachment of linearInfo.attachments) {
+    const prMatch = attachment.url?.match(
+      /^https?:\/\/[^/]+\/([^/]+)\/([^/]+)\/pull\/(\d+)/
+    );
+    if (!prMatch) continue;
 
-    logInfo(`✅ Found Linear issue: ${issue.title}`);
-
-    // Get issue comments
-    const comments = await issue.comments();
-    const commentsList = await comments.nodes;
-
-    // Get additional metadata
-    const state = await issue.state;
-    const assignee = await issue.assignee;
-    const team = await issue.team;
-    const labels = await issue.labels();
-
-    const linearInfo: LinearIssueInfo = {
-      id: issueId,
-      title: issue.title,
-      description: issue.description,
-      branchName: issue.branchName,
-      url: issue.url,
-      state: state?.name || "Unknown",
-      priority: issue.priority || 0,
-      priorityLabel: issue.priorityLabel || "None",
-      assignee: assignee
-        ? {
-            name: assignee.displayName || assignee.name || "Unknown User",
-            email: assignee.email,
-          }
-        : null,
-      team: team?.name || "Unknown",
-      labels: labels.nodes.map((label) => label.name),
-      comments: commentsList.map((comment) => ({
-        body: comment.body,
-        user: {
-          name:
-            (comment.user as any)?.displayName ||
-            (comment.user as any)?.name ||
-            "Unknown User",
-        },
-        createdAt: comment.createdAt,
-      })),
-      attachments: [],
+    const prInfo = {
+      owner: prMatch[1],
+      repo: prMatch[2],
+      number: parseInt(prMatch[3]),
     };
-
-    // Get attachments if available
-    try {
-      const attachments = await issue.attachments();
-      const attachmentsList = await attachments.nodes;
-      linearInfo.attachments = attachmentsList.map((attachment) => ({
-        url: attachment.url,
-        title: attachment.title,
-      }));
-    } catch (error) {
-      // Ignore attachment errors
+    const isDuplicate = prs.some(
+      (pr) =>
+        pr.owner === prInfo.owner &&
+        pr.repo === prInfo.repo &&
+        pr.number === prInfo.number
+    );
+    if (!isDuplicate) {
+      logInfo(
+        `✅ Found GitHub PR linked to ${linearInfo.tracker} issue: ${prInfo.owner}/${prInfo.repo}#${prInfo.number}`
+      );
+      prs.push(prInfo);
     }
-
-    return linearInfo;
-  } catch (error) {
-    logWarning(`Could not fetch Linear issue ${issueId}: ${error}`);
-    return null;
   }
+  return prs;
 }
 
-async function findPRFromLinearAttachments(
-  linearInfo: LinearIssueInfo
-): Promise<PRInfo | null> {
-  // Check attachments for GitHub PR links
-  for (const attachment of linearInfo.attachments) {
-    const prMatch = attachment.url?.match(
-      /github\.com\/([^/]+)\/([^/]+)\/pull\/(\d+)/
+// Pick which of a tracker issue's linked PRs to extract: --prs and --all-prs
+// win, then workflow.multiplePRs ("prompt" asks when prompts are enabled
+// and stdin is a terminal, also when run by jules-pr)
+async function selectLinkedPRs(prs: PRInfo[]): Promise<PRInfo[]> {
+  if (prs.length <= 1) return prs;
+
+  if (selectedPRNumbers.length > 0) {
+    const selected = prs.filter((pr) => selectedPRNumbers.includes(pr.number));
+    if (selected.length > 0) return selected;
+    logNotice(
+      `None of the PRs passed to --prs are linked to this issue, using #${prs[0].number}`
     );
-    if (prMatch) {
-      const prInfo = {
-        owner: prMatch[1],
-        repo: prMatch[2],
-        number: parseInt(prMatch[3]),
-      };
-      logInfo(
-        `✅ Found GitHub PR from Linear attachment: ${prInfo.owner}/${prInfo.repo}#${prInfo.number}`
-      );
-      return prInfo;
-    }
+    return [prs[0]];
   }
-  return null;
+  if (includeAllPRs || config.workflow.multiplePRs === "all") return prs;
+
+  if (
+    config.workflow.multiplePRs === "prompt" &&
+    process.stdin.isTTY &&
+    config.workflow.enableInteractivePrompts
+  ) {
+    // One prompt, so the list shows up on stderr too when logs are off
+    const answer = await promptUser(
+      [
+        `\n🔀 ${prs.length} GitHub PRs are linked to this ${issueTracker.name} issue:`,
+        ...prs.map(
+          (pr, index) => `  ${index + 1}. ${pr.owner}/${pr.repo}#${pr.number}`
+        ),
+        "🤔 PRs to include (e.g. 1,3), 'a' for all, or press Enter for the first: ",
+      ].join("\n")
+    );
+    if (answer.trim().toLowerCase() === "a") return prs;
+
+    const selected = prs.filter((_, index) =>
+      answer
+        .split(",")
+        .map((choice) => parseInt(choice.trim()))
+        .includes(index + 1)
+    );
+    return selected.length > 0 ? selected : [prs[0]];
+  }
+
+  logNotice(
+    `${prs.length} GitHub PRs are linked to this ${issueTracker.name} issue, using #${prs[0].number} (pass --all-prs or --prs to include others)`
+  );
+  return [prs[0]];
 }
 
 async function findPRFromBranch(branchName: string): Promise<PRInfo | null> {
   try {
     const { owner, repo } = await getCurrentRepoInfo();
 
-    const prListOutput = execSync(
-      `gh pr list --head ${branchName} --repo ${owner}/${repo} --json number`,
-      { encoding: "utf-8" }
+    const { items: prs } = await getGitHubClient().listPullRequests(
+      owner,
+      repo,
+      { head: `${owner}:${branchName}` }
     );
-    const prs = JSON.parse(prListOutput);
     if (prs.length > 0) {
       const prInfo = {
         owner,
@@ -334,87 +629,355 @@ async function findPRFromBranch(branchName: string): Promise<PRInfo | null> {
   return null;
 }
 
+const FAILING_CHECK_CONCLUSIONS = ["failure", "timed_out", "startup_failure"];
+const FAILING_STATUS_STATES = ["failure", "error"];
+const ERROR_LINE_PATTERN =
+  /##\[error\]|\berror\b|\bfailed\b|\bexception\b|\bFAIL\b|✕|✖/i;
+
+// Pull the lines that explain a failure out of a job log: each error line
+// plus the two after it, falling back to the end of the log
+function extractErrorLines(log: string, maxLines: number): string[] {
+  const lines = log
+    .split(/\r?\n/)
+    // Drop Actions timestamps and ANSI colors
+    .map((line) =>
+      line
+        .replace(/^\d{4}-\d{2}-\d{2}T[\d:.]+Z ?/, "")
+        .replace(/\x1b\[[0-9;]*m/g, "")
+    )
+    .filter((line) => line.trim() && !line.startsWith("##[group]"));
+
+  const picked = new Set<number>();
+  lines.forEach((line, index) => {
+    if (!ERROR_LINE_PATTERN.test(line)) return;
+    for (let i = index; i <= index + 2 && i < lines.length; i++) {
+      picked.add(i);
+    }
+  });
+
+  if (picked.size === 0) return lines.slice(-maxLines);
+  return Array.from(picked)
+    .sort((a, b) => a - b)
+    .slice(0, maxLines)
+    .map((index) => lines[index]);
+}
+
+// Give inline comments a window of their file at the PR head. Comments on
+// the base side, on files past maxFilesToFetch or on files that can't be
+// fetched keep only their diff hunk, as do outdated comments whose line
+// can't be found.
+async function attachCodeWindows(
+  owner: string,
+  repo: string,
+  headSha: string,
+  comments: Array<
+    Pick<
+      Comment,
+      "path" | "start_line" | "original_line" | "side" | "diff_hunk"
+    > & { line: number | null; code_context?: CodeWindow | null }
+  >
+): Promise<void> {
+  const github = getGitHubClient();
+  const paths = [
+    ...new Set(
+      comments
+        .filter((comment) => comment.path && comment.side !== "LEFT")
+        .map((comment) => comment.path!)
+    ),
+  ];
+  if (paths.length > config.codeContext.maxFilesToFetch) {
+    logWarning(
+      `Fetching ${config.codeContext.maxFilesToFetch} of ${paths.length} commented files for code context`
+    );
+  }
+
+  const fileLines = new Map<string, string[]>();
+  await Promise.all(
+    paths.slice(0, config.codeContext.maxFilesToFetch).map(async (path) => {
+      try {
+        const content = await github.getFileContent(owner, repo, path, headSha);
+        fileLines.set(path, content.split("\n"));
+      } catch (error) {
+        logWarning(`Could not fetch ${path} for code context: ${error}`);
+      }
+    })
+  );
+
+  comments.forEach((comment) => {
+    const lines = comment.path && fileLines.get(comment.path);
+    if (!lines || comment.side === "LEFT") return;
+    comment.code_context = buildCodeWindow({
+      path: comment.path!,
+      ref: headSha,
+      fileLines: lines,
+      line: comment.line,
+      startLine: comment.start_line,
+      originalLine: comment.original_line,
+      diffHunk: comment.diff_hunk,
+      size: config.codeContext.maxCodeLines,
+    });
+  });
+}
+
+// Check runs and commit statuses for a commit, with log excerpts for failed
+// GitHub Actions jobs
+async function fetchCIChecks(
+  owner: string,
+  repo: string,
+  sha: string
+): Promise<CICheck[]> {
+  const github = getGitHubClient();
+  const [checkRuns, combinedStatus] = await Promise.all([
+    github.listCheckRuns(owner, repo, sha),
+    github.getCombinedStatus(owner, repo, sha),
+  ]);
+  const maxLogLines = config.integrations.github.ciLogLines;
+
+  const checks = await Promise.all(
+    checkRuns.items.map(async (run): Promise<CICheck> => {
+      const state =
+        run.status !== "completed"
+          ? "pending"
+          : FAILING_CHECK_CONCLUSIONS.includes(run.conclusion || "")
+          ? "failing"
+          : "passing";
+
+      let logExcerpt: string[] = [];
+      if (
+        state === "failing" &&
+        maxLogLines > 0 &&
+        run.app?.slug === "github-actions"
+      ) {
+        try {
+          const log = await github.getJobLogs(owner, repo, run.id);
+          logExcerpt = extractErrorLines(log, maxLogLines);
+        } catch (error) {
+          logWarning(`Could not fetch logs for ${run.name}: ${error}`);
+        }
+      }
+
+      return {
+        name: run.name,
+        state,
+        conclusion: run.conclusion || run.status,
+        url: run.html_url,
+        summary: run.output?.title || null,
+        logExcerpt,
+      };
+    })
+  );
+
+  combinedStatus.statuses.forEach((status) => {
+    checks.push({
+      name: status.context,
+      state:
+        status.state === "pending"
+          ? "pending"
+          : FAILING_STATUS_STATES.includes(status.state)
+          ? "failing"
+          : "passing",
+      conclusion: status.state,
+      url: status.target_url,
+      summary: status.description,
+      logExcerpt: [],
+    });
+  });
+
+  return checks;
+}
+
 async function fetchPRData(prInfo: PRInfo): Promise<{
   prDetails: any;
-  reviews: any[];
-  reviewComments: any[];
-  issueComments: any[];
+  reviews: Comment[];
+  reviewComments: Comment[];
+  issueComments: Comment[];
+  changedFiles: ChangedFile[];
+  ciChecks: CICheck[];
+  truncatedLists: string[];
+  sinceCommit: { sha: string | null; date: string } | null;
 } | null> {
   const { owner, repo, number } = prInfo;
+  const github = getGitHubClient();
 
   try {
     // Check if PR exists
-    const prCheck = execSync(
-      `gh api repos/${owner}/${repo}/pulls/${number} --jq '.title'`,
-      { encoding: "utf-8" }
-    ).trim();
+    const pr = await github.getPullRequest(owner, repo, number);
 
-    if (!prCheck) {
+    if (!pr?.title) {
       return null;
     }
 
-    logInfo(`✅ Found GitHub PR: ${prCheck}`);
-
-    // Fetch all data in parallel for better performance
-    const [reviewsOutput, commentsOutput, issueCommentsOutput, prDetails] =
-      await Promise.all([
+    logInfo(`✅ Found GitHub PR: ${pr.title}`);
+
+    // Fetch all data in parallel for better performance (every page)
+    const [
+      reviews,
+      reviewComments,
+      issueComments,
+      reviewThreads,
+      files,
+      ciChecks,
+    ] = await Promise.all([
         // Get PR reviews
-        new Promise<string>((resolve) => {
-          const output = execSync(
-            `gh api repos/${owner}/${repo}/pulls/${number}/reviews --jq '.[] | select(.body != "") | {author: .user.login, body: .body, state: .state}' | cat`,
-            { encoding: "utf-8" }
-          );
-          resolve(output);
-        }),
-
+        github.listReviews(owner, repo, number),
         // Get PR review comments (inline comments)
-        new Promise<string>((resolve) => {
-          const output = execSync(
-            `gh api repos/${owner}/${repo}/pulls/${number}/comments --jq '.[] | {author: .user.login, body: .body, path: .path, line: .line, diff_hunk: .diff_hunk}' | cat`,
-            { encoding: "utf-8" }
-          );
-          resolve(output);
-        }),
-
+        github.listReviewComments(owner, repo, number),
         // Get general PR comments
-        new Promise<string>((resolve) => {
-          const output = execSync(
-            `gh api repos/${owner}/${repo}/issues/${number}/comments --jq '.[] | {author: .user.login, body: .body, created_at: .created_at}' | cat`,
-            { encoding: "utf-8" }
-          );
-          resolve(output);
-        }),
-
-        // Get PR details
-        new Promise<string>((resolve) => {
-          const output = execSync(
-            `gh api repos/${owner}/${repo}/pulls/${number} --jq '{title: .title, body: .body, head_ref: .head.ref, base_ref: .base.ref, state: .state, draft: .draft}'`,
-            { encoding: "utf-8" }
-          );
-          resolve(output);
+        github.listIssueComments(owner, repo, number),
+        // Get review thread resolution state (GraphQL only)
+        github.listReviewThreads(owner, repo, number).catch((error) => {
+          logWarning(`Could not fetch review thread state: ${error}`);
+          return { items: [], truncated: false };
         }),
+        // Get changed files for the diff summary
+        isDiffSummaryEnabled()
+          ? github.listPullRequestFiles(owner, repo, number).catch((error) => {
+              logWarning(`Could not fetch changed files: ${error}`);
+              return { items: [], truncated: false };
+            })
+          : { items: [], truncated: false },
+        // Get CI results for the head commit
+        config.integrations.github.includeCIStatus
+          ? fetchCIChecks(owner, repo, pr.head.sha).catch((error) => {
+              logWarning(`Could not fetch CI status: ${error}`);
+              return [];
+            })
+          : [],
       ]);
 
+    // Find the cutoff for --since-last-commit from the PR's commit list,
+    // unless the caller already knows it. The committer date is used since
+    // a rebased or amended commit keeps its original author date.
+    let sinceCommit: { sha: string | null; date: string } | null =
+      sinceDate ? { sha: null, date: sinceDate } : null;
+    if (sinceLastCommit && !sinceCommit) {
+      const { items: commits } = await github.listPullRequestCommits(
+        owner,
+        repo,
+        number
+      );
+      const lastAgentCommit = findLastCommitByAuthor(
+        commits,
+        config.workflow.codingAgentAuthor
+      );
+      if (lastAgentCommit?.commit.committer?.date) {
+        sinceCommit = {
+          sha: lastAgentCommit.sha,
+          date: lastAgentCommit.commit.committer.date,
+        };
+      } else {
+        logWarning(
+          `No commit by "${config.workflow.codingAgentAuthor}" found - keeping all feedback`
+        );
+      }
+    }
+    if (sinceCommit) {
+      logInfo(`⏱️ Keeping feedback since ${describeCutoff(sinceCommit)}`);
+    }
+    const isNewFeedback = (date?: string) =>
+      !sinceCommit || (!!date && date > sinceCommit.date);
+
+    // Replies point at their thread's root comment. A thread with anything
+    // new is kept whole so the new replies read in context.
+    const getThreadRootId = (comment: GitHubReviewComment) =>
+      comment.in_reply_to_id ?? comment.id;
+    const activeThreadRootIds = new Set(
+      reviewComments.items
+        .filter((comment) => isNewFeedback(comment.created_at))
+        .map(getThreadRootId)
+    );
+
+    // Map each inline comment to its thread's resolved/outdated flags
+    const threadByCommentId = new Map<
+      number,
+      { isResolved: boolean; isOutdated: boolean }
+    >();
+    reviewThreads.items.forEach((thread) => {
+      thread.commentIds.forEach((commentId) =>
+        threadByCommentId.set(commentId, thread)
+      );
+    });
+
+    // Record which lists hit the configured item cap
+    const truncatedLists = [
+      reviews.truncated && "reviews",
+      reviewComments.truncated && "inline comments",
+      reviewThreads.truncated && "review threads",
+      issueComments.truncated && "discussion comments",
+      files.truncated && "changed files",
+    ].filter(Boolean) as string[];
+    if (truncatedLists.length > 0) {
+      logWarning(
+        `Hit the ${
+          github.options.maxItemsPerList
+        }-item cap for: ${truncatedLists.join(", ")}`
+      );
+    }
+
+    const inlineComments = reviewComments.items
+      .filter((comment) => activeThreadRootIds.has(getThreadRootId(comment)))
+      .map((comment) => ({
+        id: comment.id,
+        author: comment.user?.login,
+        body: comment.body,
+        path: comment.path,
+        line: comment.line,
+        start_line: comment.start_line,
+        original_line: comment.original_line,
+        side: comment.side,
+        diff_hunk: comment.diff_hunk,
+        in_reply_to_id: comment.in_reply_to_id,
+        created_at: comment.created_at,
+        author_association: comment.author_association,
+        isResolved: threadByCommentId.get(comment.id)?.isResolved || false,
+        isOutdated: threadByCommentId.get(comment.id)?.isOutdated || false,
+      }));
+    if (config.codeContext.source === "headFile") {
+      await attachCodeWindows(owner, repo, pr.head.sha, inlineComments);
+    }
+
     return {
-      prDetails: JSON.parse(prDetails),
-      reviews: reviewsOutput.trim()
-        ? reviewsOutput
-            .trim()
-            .split("\n")
-            .map((line) => JSON.parse(line))
-        : [],
-      reviewComments: commentsOutput.trim()
-        ? commentsOutput
-            .trim()
-            .split("\n")
-            .map((line) => JSON.parse(line))
-        : [],
-      issueComments: issueCommentsOutput.trim()
-        ? issueCommentsOutput
-            .trim()
-            .split("\n")
-            .map((line) => JSON.parse(line))
-        : [],
+      prDetails: {
+        title: pr.title,
+        body: pr.body,
+        head_ref: pr.head.ref,
+        base_ref: pr.base.ref,
+        state: pr.state,
+        draft: pr.draft,
+        // Points at the GitHub Enterprise host when apiBaseUrl does
+        html_url: pr.html_url,
+      },
+      reviews: reviews.items
+        .filter(
+          (review) => review.body !== "" && isNewFeedback(review.submitted_at)
+        )
+        .map((review) => ({
+          author: review.user?.login,
+          body: review.body,
+          state: review.state,
+          created_at: review.submitted_at,
+          author_association: review.author_association,
+        })),
+      reviewComments: inlineComments,
+      issueComments: issueComments.items
+        .filter((comment) => isNewFeedback(comment.created_at))
+        .map((comment) => ({
+          author: comment.user?.login,
+          body: comment.body,
+          created_at: comment.created_at,
+          author_association: comment.author_association,
+        })),
+      changedFiles: files.items.map((file) => ({
+        path: file.filename,
+        previousPath: file.previous_filename,
+        status: file.status,
+        additions: file.additions,
+        deletions: file.deletions,
+        patch: file.patch,
+      })),
+      ciChecks,
+      truncatedLists,
+      sinceCommit,
     };
   } catch (error) {
     logWarning(`Could not fetch GitHub PR ${number}: ${error}`);
@@ -447,6 +1010,14 @@ async function generateAISummary(
         ...extractedData.reviewComments,
         ...extractedData.issueComments,
       ].slice(0, config.aiSummary.maxCommentsForAI),
+      diffStats: isDiffSummaryEnabled()
+        ? extractedData.changedFiles.map((file) => ({
+            path: file.path,
+            status: file.status,
+            additions: file.additions,
+            deletions: file.deletions,
+          }))
+        : [],
     };
 
     // Use custom prompt if provided, otherwise use default
@@ -455,10 +1026,19 @@ async function generateAISummary(
       prompt = `Analyze this PR/issue discussion and provide a concise summary:
 
 PR: ${context.prTitle}
-Linear Issue: ${context.linearTitle}
+${issueTracker.name} Issue: ${context.linearTitle}
 Total Reviews: ${context.totalReviews}
 Total Comments: ${context.totalComments}
-
+${
+  context.diffStats.length > 0
+    ? `\nChanged Files (path, status, additions, deletions):\n${context.diffStats
+        .map(
+          (file) =>
+            `${file.path} ${file.status} +${file.additions} -${file.deletions}`
+        )
+        .join("\n")}\n`
+    : ""
+}
 Key Feedback:
 ${JSON.stringify(context.reviews, null, 2)}
 ${JSON.stringify(context.comments, null, 2)}
@@ -498,17 +1078,195 @@ Keep it concise and actionable for a developer.`;
   }
 }
 
-function formatOutput(extractedData: ExtractedData): string {
-  const {
-    prInfo,
-    linearInfo,
-    prDetails,
-    reviews,
-    reviewComments,
-    issueComments,
-  } = extractedData;
+// Let the model set each comment's priority and category up front
+// (priority.classifier.mode "ai"); comments it can't classify are left for
+// the keyword rules in classifyFeedback.
+async function applyAIClassification(
+  extractedData: ExtractedData
+): Promise<void> {
+  const geminiApiKey = process.env.GEMINI_API_KEY;
+  if (!geminiApiKey) {
+    logWarning("GEMINI_API_KEY not found - using keyword priorities");
+    return;
+  }
+
+  const comments: Comment[] = [
+    extractedData,
+    ...extractedData.additionalPRs,
+  ].flatMap((data) =>
+    [...data.reviews, ...data.reviewComments, ...data.issueComments].filter(
+      (comment) => comment.body?.trim() && !comment.priority
+    )
+  );
+  if (comments.length === 0) return;
+
+  const { classifier } = config.priority;
+  const model = config.aiSummary.model;
+  const results = await classifyComments(
+    comments.map((comment) => ({
+      author: comment.author,
+      body: comment.body,
+      path: comment.path,
+      state: comment.state,
+    })),
+    {
+      apiKey: geminiApiKey,
+      model,
+      batchSize: classifier.batchSize,
+      cacheFile: classifier.cacheFile
+        ? resolve(classifier.cacheFile)
+        : getDefaultCacheFile(),
+      maxCacheEntries: classifier.maxCacheEntries,
+      maxBodyLength: classifier.maxBodyLength,
+    },
+    { warn: logWarning }
+  );
+
+  let classified = 0;
+  let cached = 0;
+  results.forEach((result, index) => {
+    if (!result) return;
+    classified++;
+    if (result.cached) cached++;
+    Object.assign(comments[index], {
+      priority: result.priority,
+      category: result.category,
+      priorityReasons: [
+        `${result.priority} from ${model}${
+          result.category ? ` (${result.category})` : ""
+        }${result.cached ? ", cached" : ""}`,
+      ],
+    });
+  });
+
+  logInfo(
+    `🤖 AI classified ${classified}/${comments.length} comments (${cached} from cache)`
+  );
+}
+
+// Prioritize comments, split human from bot feedback and group inline
+// comments into threads. Shared by the Markdown and JSON output.
+function classifyFeedback(extractedData: ExtractedData): ClassifiedFeedback {
+  const { reviews, reviewComments, issueComments } = extractedData;
+
+  // Process and enhance all comments
+  const allReviews: Comment[] = reviews.map((review) =>
+    withPriority({
+      ...review,
+      isBot: getBotUsers().includes(review.author),
+    })
+  );
+
+  const allReviewComments: Comment[] = reviewComments
+    .map((comment) =>
+      withPriority({
+        ...comment,
+        isBot: getBotUsers().includes(comment.author),
+      })
+    )
+    .filter((comment) => getThreadDisposition(comment) !== "hide");
+
+  // Resolved/outdated threads are pulled out of the main feedback sections
+  const addressedReviewComments = deduplicateComments(
+    buildCommentThreads(
+      allReviewComments.filter(
+        (comment) => getThreadDisposition(comment) === "collapse"
+      )
+    )
+  );
+  const activeReviewComments = allReviewComments.filter(
+    (comment) => getThreadDisposition(comment) === "include"
+  );
+
+  const allIssueComments: Comment[] = issueComments.map((comment) =>
+    withPriority({
+      ...comment,
+      isBot: getBotUsers().includes(comment.author),
+    })
+  );
+
+  // Deduplicate and separate human vs bot comments
+  const humanReviews = deduplicateComments(allReviews.filter((r) => !r.isBot));
+  const botReviews = deduplicateComments(allReviews.filter((r) => r.isBot));
+  // Threads with any human participant stay with the human feedback, so a
+  // human reply to a bot comment is read next to the original
+  const reviewThreads = buildCommentThreads(activeReviewComments);
+  const humanReviewComments = deduplicateComments(
+    reviewThreads.filter(
+      (thread) => !thread.isBot || thread.replies!.some((reply) => !reply.isBot)
+    )
+  );
+  const botReviewThreads = reviewThreads.filter(
+    (thread) => thread.isBot && thread.replies!.every((reply) => reply.isBot)
+  );
+  const botReviewComments = deduplicateComments(
+    botReviewThreads.flatMap((thread) => [thread, ...thread.replies!])
+  );
+  const humanIssueComments = deduplicateComments(
+    allIssueComments.filter((c) => !c.isBot)
+  );
+  const botIssueComments = deduplicateComments(
+    allIssueComments.filter((c) => c.isBot)
+  );
+  const suggestions = [...humanReviewComments, ...botReviewThreads]
+    .flatMap((thread) => [thread, ...thread.replies!])
+    .flatMap(parseSuggestions)
+    .sort((a, b) => a.path.localeCompare(b.path) || a.startLine - b.startLine);
+  const botReports = [
+    ...botReviews,
+    ...botReviewComments,
+    ...botIssueComments,
+  ].flatMap((comment) => {
+    const result = botParsers.parse(comment);
+    return result ? [{ comment, result }] : [];
+  });
+
+  return {
+    humanReviews,
+    botReviews,
+    humanReviewComments,
+    botReviewComments,
+    botReviewThreads,
+    humanIssueComments,
+    botIssueComments,
+    addressedReviewComments,
+    suggestions,
+    botReports,
+  };
+}
+
+function formatLinkedIssue(issue: LinkedIssue): string {
+  return `${issue.id} - ${issue.title} (${issue.state})`;
+}
+
+// "Name (target 2026-01-31)" style labels for project and milestone
+function formatTargetDate(name: string, targetDate?: string): string {
+  return targetDate ? `${name} (target ${targetDate})` : name;
+}
+
+// Sections that describe a single PR. With several linked PRs these repeat
+// under each PR's heading; the rest (header, Linear overview, rules) appear once.
+const PER_PR_SECTIONS = [
+  "truncationWarning",
+  "sinceLastCommit",
+  "prOverview",
+  "prDiff",
+  "ciStatus",
+  "humanReviews",
+  "humanCodeComments",
+  "humanGeneralComments",
+  "suggestedChanges",
+  "botFeedback",
+  "previouslyAddressed",
+  "actionItems",
+];
+
+function buildFormattedOutput(
+  extractedData: ExtractedData,
+  budgetNotes: string[] = []
+): string {
+  const { prInfo, linearInfo } = extractedData;
 
-  let output = "";
   const sections: Record<string, string> = {};
 
   // For Linear-only issues (no PR found), use simplified format
@@ -539,10 +1297,63 @@ function formatOutput(extractedData: ExtractedData): string {
         metadata += `- Labels: ${linearInfo.labels.join(", ")}\n`;
       }
       metadata += `- Priority: ${linearInfo.priorityLabel}\n`;
+      if (linearInfo.project) {
+        metadata += `- Project: ${formatTargetDate(
+          linearInfo.project.name,
+          linearInfo.project.targetDate
+        )}\n`;
+      }
+      if (linearInfo.milestone) {
+        metadata += `- Milestone: ${formatTargetDate(
+          linearInfo.milestone.name,
+          linearInfo.milestone.targetDate
+        )}\n`;
+      }
+      if (linearInfo.cycle) {
+        metadata += `- Cycle: ${linearInfo.cycle.name} (${linearInfo.cycle.startsAt} → ${linearInfo.cycle.endsAt})\n`;
+      }
       metadata += `- Team: ${linearInfo.team}\n\n`;
       sections.metadata = metadata;
     }
 
+    // Project spec
+    if (
+      linearInfo.project?.description &&
+      config.integrations.linear.includeProjectDescription
+    ) {
+      sections.projectDescription = `## Project: ${linearInfo.project.name}\n\n${linearInfo.project.description}\n\n`;
+    }
+
+    // Parent, sub-issues and relations
+    if (linearInfo.parent) {
+      let parentSection = `## Parent Issue\n`;
+      parentSection += `${formatLinkedIssue(linearInfo.parent)}\n\n`;
+      if (linearInfo.parent.description) {
+        parentSection += `${linearInfo.parent.description}\n\n`;
+      }
+      sections.parentIssue = parentSection;
+    }
+    if (linearInfo.subIssues.length > 0 || linearInfo.relations.length > 0) {
+      let relatedSection = "";
+      if (linearInfo.subIssues.length > 0) {
+        relatedSection += `## Sub-issues\n`;
+        linearInfo.subIssues.forEach((subIssue) => {
+          relatedSection += `- ${formatLinkedIssue(subIssue)}\n`;
+        });
+        relatedSection += `\n`;
+      }
+      if (linearInfo.relations.length > 0) {
+        relatedSection += `## Relations\n`;
+        linearInfo.relations.forEach((relation) => {
+          relatedSection += `- ${relation.type} ${formatLinkedIssue(
+            relation
+          )}\n`;
+        });
+        relatedSection += `\n`;
+      }
+      sections.relatedIssues = relatedSection;
+    }
+
     // Comments section
     if (
       linearInfo.comments &&
@@ -566,7 +1377,7 @@ function formatOutput(extractedData: ExtractedData): string {
           ? config.output.customJulesRules
           : [
               "You don't have access to project environmental variables. If you must make an edit / migration of the database please instead edit prisma schema file and leave it as is, assuming a human will migrate it later.",
-              "When publishing the github branch the name MUST BE THE FULL EXACT the FROM branch mentioned at the top of the output (but not the shortened version at the top of the output). For Linear-only issues without an existing branch, create an appropriate branch name from the Linear issue ID and title.",
+              `When publishing the github branch the name MUST BE THE FULL EXACT the FROM branch mentioned at the top of the output (but not the shortened version at the top of the output). For ${linearInfo.tracker}-only issues without an existing branch, create an appropriate branch name from the ${linearInfo.tracker} issue ID and title.`,
             ];
 
       rulesToUse.forEach((rule) => {
@@ -581,18 +1392,72 @@ function formatOutput(extractedData: ExtractedData): string {
       sections.julesRules = rulesSection;
     }
 
-    // Build output in the order: header, title, description, metadata, comments, julesRules
-    return [
-      sections.header || "",
-      sections.title || "",
-      sections.description || "",
-      sections.metadata || "",
-      sections.comments || "",
-      sections.julesRules || "",
-    ].join("");
+    // Build output in the order: header, title, description, metadata,
+    // projectDescription, parentIssue, relatedIssues, comments, julesRules
+    return renderOutput(extractedData, sections, [
+      "header",
+      "title",
+      "description",
+      "metadata",
+      "projectDescription",
+      "parentIssue",
+      "relatedIssues",
+      "comments",
+      "julesRules",
+    ]);
+  }
+
+  const prSections = buildPRSections(extractedData, budgetNotes);
+  if (extractedData.additionalPRs.length === 0) {
+    return renderOutput(extractedData, prSections, config.output.sectionOrder);
   }
 
-  // For PR + Linear combined format (existing logic)
+  // Several linked PRs: each PR's own sections go under a heading, all in
+  // the slot of the last per-PR section so shared context comes first
+  const sectionOrder = config.output.sectionOrder;
+  const prSectionOrder = sectionOrder.filter((sectionName) =>
+    PER_PR_SECTIONS.includes(sectionName)
+  );
+  const linkedPRs = [extractedData, ...extractedData.additionalPRs]
+    .map((prData) => {
+      const { owner, repo, number } = prData.prInfo!;
+      const title = prData.prDetails?.title || "details unavailable";
+      const sections =
+        prData === extractedData ? prSections : buildPRSections(prData, []);
+      return (
+        `## PR ${owner}/${repo}#${number}: ${title}\n\n` +
+        getOrderedSections(sections, prSectionOrder).join("")
+      );
+    })
+    .join("\n");
+
+  return renderOutput(
+    extractedData,
+    { ...prSections, linkedPRs },
+    sectionOrder.flatMap((sectionName) => {
+      if (!PER_PR_SECTIONS.includes(sectionName)) return [sectionName];
+      return sectionName === prSectionOrder[prSectionOrder.length - 1]
+        ? ["linkedPRs"]
+        : [];
+    })
+  );
+}
+
+// Build the PR + Linear sections for one PR
+function buildPRSections(
+  extractedData: ExtractedData,
+  budgetNotes: string[]
+): Record<string, string> {
+  const {
+    prInfo,
+    linearInfo,
+    prDetails,
+    truncatedLists,
+    sinceCommit,
+  } = extractedData;
+
+  const sections: Record<string, string> = {};
+
   const fullBranchName =
     prDetails?.head_ref || linearInfo?.branchName || "unknown";
 
@@ -606,6 +1471,29 @@ function formatOutput(extractedData: ExtractedData): string {
     sections.summaryHeader = `**UNIFIED PR/ISSUE DISCUSSION SUMMARY**\n\n`;
   }
 
+  // Truncation warning when pagination hit the configured cap
+  if (truncatedLists.length > 0) {
+    sections.truncationWarning = `⚠️ **Truncated:** only the first ${
+      config.integrations.github.maxItemsPerList
+    } ${truncatedLists.join(
+      ", "
+    )} were fetched; later feedback is missing from this extraction.\n\n`;
+  }
+
+  // Token budget note, so trimmed content isn't mistaken for the full picture
+  if (budgetNotes.length > 0) {
+    sections.budgetNotice = `✂️ **Trimmed to fit the ${
+      config.output.maxTokens
+    }-token budget:** ${budgetNotes.join("; ")}.\n\n`;
+  }
+
+  // Incremental mode note
+  if (sinceCommit) {
+    sections.sinceLastCommit = `⏱️ **Incremental extraction:** only feedback posted after ${describeCutoff(
+      sinceCommit
+    )} is included.\n\n`;
+  }
+
   // PR Overview
   if (prInfo && prDetails && config.integrations.github.includePRDescription) {
     let prOverview = `**GitHub PR Overview**\n`;
@@ -614,7 +1502,7 @@ function formatOutput(extractedData: ExtractedData): string {
     prOverview += `State: ${prDetails.state}${
       prDetails.draft ? " (Draft)" : ""
     }\n`;
-    prOverview += `URL: https://github.com/${prInfo.owner}/${prInfo.repo}/pull/${prInfo.number}\n`;
+    prOverview += `URL: ${prDetails.html_url}\n`;
     if (prDetails.body) {
       prOverview += `Description: ${prDetails.body}\n`;
     }
@@ -624,17 +1512,61 @@ function formatOutput(extractedData: ExtractedData): string {
 
   // Linear Overview
   if (linearInfo && config.integrations.linear.includeComments) {
-    let linearOverview = `**Linear Issue Context**\n`;
+    let linearOverview = `**${linearInfo.tracker} Issue Context**\n`;
     linearOverview += `ID: ${linearInfo.id}\n`;
     linearOverview += `Title: ${linearInfo.title}\n`;
     if (linearInfo.description) {
       linearOverview += `Description: ${linearInfo.description}\n`;
     }
+    if (linearInfo.labels.length > 0) {
+      linearOverview += `Labels: ${linearInfo.labels.join(", ")}\n`;
+    }
     if (linearInfo.branchName) {
       linearOverview += `Branch: ${linearInfo.branchName}\n`;
     }
+    if (linearInfo.project) {
+      linearOverview += `Project: ${formatTargetDate(
+        linearInfo.project.name,
+        linearInfo.project.targetDate
+      )}\n`;
+      if (
+        linearInfo.project.description &&
+        config.integrations.linear.includeProjectDescription
+      ) {
+        linearOverview += `Project Description: ${linearInfo.project.description}\n`;
+      }
+    }
+    if (linearInfo.milestone) {
+      linearOverview += `Milestone: ${formatTargetDate(
+        linearInfo.milestone.name,
+        linearInfo.milestone.targetDate
+      )}\n`;
+    }
+    if (linearInfo.cycle) {
+      linearOverview += `Cycle: ${linearInfo.cycle.name} (${linearInfo.cycle.startsAt} → ${linearInfo.cycle.endsAt})\n`;
+    }
+    if (linearInfo.parent) {
+      linearOverview += `Parent: ${formatLinkedIssue(linearInfo.parent)}\n`;
+      if (linearInfo.parent.description) {
+        linearOverview += `Parent Description: ${linearInfo.parent.description}\n`;
+      }
+    }
+    if (linearInfo.subIssues.length > 0) {
+      linearOverview += `Sub-issues:\n`;
+      linearInfo.subIssues.forEach((subIssue) => {
+        linearOverview += `- ${formatLinkedIssue(subIssue)}\n`;
+      });
+    }
+    if (linearInfo.relations.length > 0) {
+      linearOverview += `Relations:\n`;
+      linearInfo.relations.forEach((relation) => {
+        linearOverview += `- ${relation.type} ${formatLinkedIssue(
+          relation
+        )}\n`;
+      });
+    }
     if (linearInfo.comments.length > 0) {
-      linearOverview += `\nLinear Discussion:\n`;
+      linearOverview += `\n${linearInfo.tracker} Discussion:\n`;
       linearInfo.comments.forEach((comment) => {
         linearOverview += `**${comment.user.name}:** ${comment.body}\n`;
       });
@@ -643,40 +1575,73 @@ function formatOutput(extractedData: ExtractedData): string {
     sections.linearOverview = linearOverview;
   }
 
-  // Process and enhance all comments
-  const allReviews: Comment[] = reviews.map((review) => ({
-    ...review,
-    isBot: getBotUsers().includes(review.author),
-    priority: detectPriority(review.body),
-  }));
-
-  const allReviewComments: Comment[] = reviewComments.map((comment) => ({
-    ...comment,
-    isBot: getBotUsers().includes(comment.author),
-    priority: detectPriority(comment.body),
-  }));
+  // Changed files, so Jules knows what the PR already touches
+  if (extractedData.changedFiles.length > 0 && isDiffSummaryEnabled()) {
+    const { changedFiles } = extractedData;
+    const totalAdditions = changedFiles.reduce(
+      (sum, file) => sum + file.additions,
+      0
+    );
+    const totalDeletions = changedFiles.reduce(
+      (sum, file) => sum + file.deletions,
+      0
+    );
 
-  const allIssueComments: Comment[] = issueComments.map((comment) => ({
-    ...comment,
-    isBot: getBotUsers().includes(comment.author),
-    priority: detectPriority(comment.body),
-  }));
+    let diffSection = `${config.display.customHeaders.prDiff} (${changedFiles.length} files, +${totalAdditions} -${totalDeletions})\n\n`;
+    changedFiles.forEach((file) => {
+      const status = file.previousPath
+        ? `${file.status} from ${file.previousPath}`
+        : file.status;
+      diffSection += `- \`${file.path}\` (${status}) +${file.additions} -${file.deletions}\n`;
+      if (config.codeContext.includeDiffPatches && file.patch) {
+        diffSection += `\`\`\`diff\n${truncateCodeContext(file.patch)}\n\`\`\`\n`;
+      }
+    });
+    diffSection += `\n`;
+    sections.prDiff = diffSection;
+  }
 
-  // Deduplicate and separate human vs bot comments
-  const humanReviews = deduplicateComments(allReviews.filter((r) => !r.isBot));
-  const botReviews = deduplicateComments(allReviews.filter((r) => r.isBot));
-  const humanReviewComments = deduplicateComments(
-    allReviewComments.filter((c) => !c.isBot)
-  );
-  const botReviewComments = deduplicateComments(
-    allReviewComments.filter((c) => c.isBot)
-  );
-  const humanIssueComments = deduplicateComments(
-    allIssueComments.filter((c) => !c.isBot)
-  );
-  const botIssueComments = deduplicateComments(
-    allIssueComments.filter((c) => c.isBot)
+  // CI status for the head commit
+  const failingChecks = extractedData.ciChecks.filter(
+    (check) => check.state === "failing"
   );
+  if (extractedData.ciChecks.length > 0) {
+    const pendingCount = extractedData.ciChecks.filter(
+      (check) => check.state === "pending"
+    ).length;
+    const passingCount =
+      extractedData.ciChecks.length - failingChecks.length - pendingCount;
+
+    let ciSection = config.display.customHeaders.ciStatus;
+    if (failingChecks.length > 0) {
+      ciSection += ` ${config.priority.priorityEmojis.HIGH} HIGH`;
+    }
+    ciSection += `\n❌ ${failingChecks.length} failing, ⏳ ${pendingCount} pending, ✅ ${passingCount} passing\n\n`;
+
+    failingChecks.forEach((check) => {
+      ciSection += `**${check.name}** (${check.conclusion})`;
+      if (check.url) ciSection += ` - ${check.url}`;
+      ciSection += `\n`;
+      if (check.summary) ciSection += `${check.summary}\n`;
+      if (check.logExcerpt.length > 0) {
+        ciSection += `\`\`\`\n${check.logExcerpt.join("\n")}\n\`\`\`\n`;
+      }
+      ciSection += `\n`;
+    });
+    sections.ciStatus = ciSection;
+  }
+
+  const {
+    humanReviews,
+    botReviews,
+    humanReviewComments,
+    botReviewComments,
+    humanIssueComments,
+    botIssueComments,
+    addressedReviewComments,
+    suggestions,
+    botReports,
+  } = classifyFeedback(extractedData);
 
   // Human reviews section (prioritized first)
   if (humanReviews.length > 0 && config.integrations.github.includeReviews) {
@@ -691,6 +1656,7 @@ function formatOutput(extractedData: ExtractedData): string {
       humanReviewsSection += `**Review ${index + 1}** ${priorityEmoji} ${
         review.priority
       }\n`;
+      humanReviewsSection += formatPriorityReasons(review);
       humanReviewsSection += `**Reviewer:** ${review.author}\n`;
       humanReviewsSection += `**State:** ${review.state}\n`;
       humanReviewsSection += `**Comment:** ${review.body}\n`;
@@ -730,16 +1696,14 @@ function formatOutput(extractedData: ExtractedData): string {
             codeCommentsSection += `**Comment ${index + 1}** ${priorityEmoji} ${
               comment.priority
             }\n`;
+            codeCommentsSection += formatPriorityReasons(comment);
             if (comment.line && config.codeContext.showLineNumbers) {
               codeCommentsSection += `**Line:** ${comment.line}\n`;
             }
             codeCommentsSection += `**Reviewer:** ${comment.author}\n`;
             codeCommentsSection += `**Comment:** ${comment.body}\n`;
-            if (comment.diff_hunk) {
-              codeCommentsSection += `**Code Context:**\n\`\`\`\n${truncateCodeContext(
-                comment.diff_hunk
-              )}\n\`\`\`\n`;
-            }
+            codeCommentsSection += formatCodeContext(comment);
+            codeCommentsSection += formatThreadReplies(comment);
             codeCommentsSection += `\n`;
           });
       });
@@ -756,6 +1720,7 @@ function formatOutput(extractedData: ExtractedData): string {
           codeCommentsSection += `**Comment ${index + 1}** ${priorityEmoji} ${
             comment.priority
           }\n`;
+          codeCommentsSection += formatPriorityReasons(comment);
           if (config.codeContext.showFilePaths && comment.path) {
             codeCommentsSection += `**File:** ${comment.path}\n`;
           }
@@ -764,11 +1729,8 @@ function formatOutput(extractedData: ExtractedData): string {
           }
           codeCommentsSection += `**Reviewer:** ${comment.author}\n`;
           codeCommentsSection += `**Comment:** ${comment.body}\n`;
-          if (comment.diff_hunk) {
-            codeCommentsSection += `**Code Context:**\n\`\`\`\n${truncateCodeContext(
-              comment.diff_hunk
-            )}\n\`\`\`\n`;
-          }
+          codeCommentsSection += formatCodeContext(comment);
+          codeCommentsSection += formatThreadReplies(comment);
           codeCommentsSection += `\n`;
         });
     }
@@ -791,6 +1753,7 @@ function formatOutput(extractedData: ExtractedData): string {
       generalCommentsSection += `**Comment ${index + 1}** ${priorityEmoji} ${
         comment.priority
       }\n`;
+      generalCommentsSection += formatPriorityReasons(comment);
       generalCommentsSection += `**Author:** ${comment.author}\n`;
       generalCommentsSection += `**Comment:** ${comment.body}\n`;
       generalCommentsSection += `**Posted:** ${comment.created_at}\n`;
@@ -799,6 +1762,26 @@ function formatOutput(extractedData: ExtractedData): string {
     sections.humanGeneralComments = generalCommentsSection;
   }
 
+  // Suggested changes, as diffs Jules can apply directly
+  if (suggestions.length > 0) {
+    let suggestionsSection = `${config.display.customHeaders.suggestedChanges}\n\n`;
+    suggestions.forEach((suggestion, index) => {
+      const lines =
+        suggestion.startLine === suggestion.endLine
+          ? `${suggestion.startLine}`
+          : `${suggestion.startLine}-${suggestion.endLine}`;
+      suggestionsSection += `**Suggestion ${index + 1}** ${suggestion.path}:${lines} (${suggestion.author})\n`;
+      if (!suggestion.before) {
+        suggestionsSection += `_Original code unavailable; replace line${
+          suggestion.startLine === suggestion.endLine ? "" : "s"
+        } ${lines} with:_\n`;
+      }
+      suggestionsSection += formatSuggestionDiff(suggestion);
+      suggestionsSection += `\n`;
+    });
+    sections.suggestedChanges = suggestionsSection;
+  }
+
   // Bot comments section (collapsed/summarized)
   const totalBotComments =
     botReviews.length + botReviewComments.length + botIssueComments.length;
@@ -812,15 +1795,42 @@ function formatOutput(extractedData: ExtractedData): string {
       LOW: [] as string[],
     };
 
-    [...botReviews, ...botReviewComments, ...botIssueComments].forEach(
-      (comment) => {
-        const summary = `${comment.author}: ${comment.body.substring(
-          0,
-          100
-        )}...`;
-        botSummary[comment.priority!].push(summary);
-      }
-    );
+    // Bot comments a parser understood are shown as structured reports
+    botReports.forEach((report) => {
+      botFeedbackSection += formatBotReport(report);
+    });
+    const reported = new Set(botReports.map((report) => report.comment));
+
+    // Near-duplicates from the same bot are listed once, under the most
+    // urgent priority among them
+    const botComments = [
+      ...botReviews,
+      ...botReviewComments,
+      ...botIssueComments,
+    ].filter((comment) => !reported.has(comment));
+    const clusters = config.filtering.clusterBotFeedback
+      ? clusterBySimilarity(
+          botComments,
+          (comment) => comment.body,
+          config.filtering.similarityThreshold,
+          (comment) => comment.author
+        )
+      : botComments.map((comment) => ({
+          representative: comment,
+          items: [comment],
+        }));
+    const priorityOrder = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+
+    clusters.forEach(({ representative, items }) => {
+      const priority = items.reduce(
+        (highest, comment) =>
+          priorityOrder[comment.priority!] < priorityOrder[highest]
+            ? comment.priority!
+            : highest,
+        representative.priority!
+      );
+      botSummary[priority].push(formatBotCluster(representative, items));
+    });
 
     Object.entries(botSummary).forEach(([priority, items]) => {
       if (items.length > 0) {
@@ -843,6 +1853,34 @@ function formatOutput(extractedData: ExtractedData): string {
     sections.botFeedback = botFeedbackSection;
   }
 
+  // Previously addressed threads (collapsed to one line each)
+  if (addressedReviewComments.length > 0) {
+    let addressedSection = `${config.display.customHeaders.previouslyAddressed} (${addressedReviewComments.length} items)\n`;
+    addressedSection += `_Resolved or outdated threads, listed for context only. Do not re-apply these._\n\n`;
+    addressedReviewComments.forEach((comment) => {
+      const location = comment.line
+        ? `${comment.path}:${comment.line}`
+        : comment.path || "General";
+      const status = [
+        comment.isResolved && "resolved",
+        comment.isOutdated && "outdated",
+      ]
+        .filter(Boolean)
+        .join(", ");
+      const firstLine = comment.body.split("\n")[0].substring(0, 100);
+      const replyCount = comment.replies!.length;
+      addressedSection += `• ${location} (${status}) ${
+        comment.author
+      }: ${firstLine}${
+        replyCount > 0
+          ? ` (+${replyCount} repl${replyCount === 1 ? "y" : "ies"})`
+          : ""
+      }\n`;
+    });
+    addressedSection += `\n`;
+    sections.previouslyAddressed = addressedSection;
+  }
+
   // Enhanced action items summary
   const totalHumanComments =
     humanReviews.length +
@@ -859,13 +1897,40 @@ function formatOutput(extractedData: ExtractedData): string {
     ...humanIssueComments,
   ].filter((c) => c.priority === "MEDIUM").length;
 
-  if (totalHumanComments > 0) {
+  const humanComments = [
+    ...humanReviews,
+    ...humanReviewComments,
+    ...humanIssueComments,
+  ];
+  const categoryCounts = countCategories(humanComments);
+
+  if (totalHumanComments > 0 || failingChecks.length > 0) {
     let actionItemsSection = `${config.display.customHeaders.actionItems}\n`;
+    if (failingChecks.length > 0)
+      actionItemsSection += `${
+        config.priority.priorityEmojis.HIGH
+      } **CI FAILING**: ${failingChecks
+        .map((check) => check.name)
+        .join(", ")} - see CI status\n`;
     if (highPriorityCount > 0)
       actionItemsSection += `${config.priority.priorityEmojis.HIGH} **URGENT**: ${highPriorityCount} high priority items requiring immediate attention\n`;
     if (mediumPriorityCount > 0)
       actionItemsSection += `${config.priority.priorityEmojis.MEDIUM} **IMPORTANT**: ${mediumPriorityCount} medium priority improvements\n`;
     actionItemsSection += `📊 **TOTAL**: ${totalHumanComments} human feedback items + ${totalBotComments} bot suggestions\n`;
+    const categorySummary = FEEDBACK_CATEGORIES.filter(
+      (category) => categoryCounts[category] > 0
+    )
+      .map(
+        (category) =>
+          `${config.categories.categoryEmojis[category]} ${category} ${categoryCounts[category]}`
+      )
+      .join(", ");
+    if (categorySummary) {
+      actionItemsSection += `🏷️ **BY CATEGORY**: ${categorySummary}\n`;
+    }
+    if (config.output.groupActionItemsByCategory) {
+      actionItemsSection += formatActionItemsByCategory(humanComments);
+    }
     actionItemsSection += `\n`;
     sections.actionItems = actionItemsSection;
   }
@@ -895,19 +1960,466 @@ function formatOutput(extractedData: ExtractedData): string {
     sections.julesRules = rulesSection;
   }
 
-  // Build output according to configured section order
-  for (const sectionName of config.output.sectionOrder) {
-    if (sections[sectionName]) {
-      if (
-        config.filtering.includeEmptySections ||
-        sections[sectionName].trim()
-      ) {
-        output += sections[sectionName];
-      }
+  return sections;
+}
+
+// Rough token estimate: ~4 characters per token for English text and code
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Code context lines kept per comment once the token budget forces truncation
+const BUDGET_CODE_LINES = 3;
+// Length of the one-line summary that replaces an older comment's body
+const BUDGET_SUMMARY_LENGTH = 120;
+
+function summarizeCommentBody(body: string): string {
+  const firstLine = body.trim().split("\n")[0];
+  const summary =
+    firstLine.length > BUDGET_SUMMARY_LENGTH
+      ? `${firstLine.substring(0, BUDGET_SUMMARY_LENGTH)}…`
+      : firstLine;
+  return `${summary} _(summarized)_`;
+}
+
+// Format the output, degrading it until it fits output.maxTokens: drop
+// low-priority bot items, then truncate code context, then summarize older
+// comments. High-priority human feedback and the Jules Rules are never cut.
+function formatOutput(extractedData: ExtractedData): string {
+  const maxTokens = config.output.maxTokens;
+  let output = buildFormattedOutput(extractedData);
+  if (maxTokens <= 0 || estimateTokens(output) <= maxTokens) return output;
+
+  const budgetNotes: string[] = [];
+  let data: ExtractedData = extractedData;
+  const fitsBudget = () => {
+    output = buildFormattedOutput(data, budgetNotes);
+    return estimateTokens(output) <= maxTokens;
+  };
+  const finish = () => {
+    if (estimateTokens(output) > maxTokens) {
+      budgetNotes.push(
+        `still ~${
+          estimateTokens(output) - maxTokens
+        } tokens over budget with only high-priority human feedback left intact`
+      );
+      output = buildFormattedOutput(data, budgetNotes);
+    }
+    logWarning(
+      `Output exceeded the ${maxTokens}-token budget: ${budgetNotes.join("; ")}`
+    );
+    return output;
+  };
+
+  const isBotItem = (item: Comment) => getBotUsers().includes(item.author);
+
+  // Every step applies to the primary PR and any other linked PRs
+  const allPRs = (prData: ExtractedData) => [prData, ...prData.additionalPRs];
+  const mapPRs = (
+    prData: ExtractedData,
+    transform: (prData: ExtractedData) => ExtractedData
+  ): ExtractedData => ({
+    ...transform(prData),
+    additionalPRs: prData.additionalPRs.map(transform),
+  });
+
+  // Store each item's priority once, keeping what the AI classifier set, so
+  // the steps below and the summarized bodies all use the same one
+  const prioritize = (items: Comment[]) =>
+    items.map((item) => withPriority({ ...item, isBot: isBotItem(item) }));
+  data = mapPRs(data, (prData) => ({
+    ...prData,
+    reviews: prioritize(prData.reviews),
+    reviewComments: prioritize(prData.reviewComments),
+    issueComments: prioritize(prData.issueComments),
+  }));
+  const getPriority = (item: Comment) => item.priority;
+  const countItems = (prData: ExtractedData) =>
+    allPRs(prData).reduce(
+      (count, pr) =>
+        count +
+        pr.reviews.length +
+        pr.reviewComments.length +
+        pr.issueComments.length,
+      0
+    );
+
+  // High-priority human threads are kept whole, replies included
+  const feedback = allPRs(data).map((prData) => classifyFeedback(prData));
+  const protectedCommentIds = new Set(
+    feedback
+      .flatMap((prFeedback) => prFeedback.humanReviewComments)
+      .filter((thread) => thread.priority === "HIGH")
+      .flatMap((thread) => [thread, ...thread.replies!])
+      .map((comment) => comment.id)
+  );
+  const isProtected = (item: Comment) =>
+    protectedCommentIds.has(item.id) ||
+    (!isBotItem(item) && getPriority(item) === "HIGH");
+
+  // 1. Drop low-priority bot feedback
+  const lowBotCommentIds = new Set(
+    feedback
+      .flatMap((prFeedback) => prFeedback.botReviewThreads)
+      .filter((thread) => thread.priority === "LOW")
+      .flatMap((thread) => [thread, ...thread.replies!])
+      .map((comment) => comment.id)
+  );
+  const isLowBotItem = (item: Comment) =>
+    isBotItem(item) && getPriority(item) === "LOW";
+  const withoutLowBot = mapPRs(data, (prData) => ({
+    ...prData,
+    reviews: prData.reviews.filter((review) => !isLowBotItem(review)),
+    reviewComments: prData.reviewComments.filter(
+      (comment) => !lowBotCommentIds.has(comment.id)
+    ),
+    issueComments: prData.issueComments.filter(
+      (comment) => !isLowBotItem(comment)
+    ),
+  }));
+  const droppedCount = countItems(data) - countItems(withoutLowBot);
+  if (droppedCount > 0) {
+    data = withoutLowBot;
+    budgetNotes.push(
+      `dropped ${droppedCount} low-priority bot item${
+        droppedCount === 1 ? "" : "s"
+      }`
+    );
+    if (fitsBudget()) return finish();
+  }
+
+  // 2. Truncate code context, keeping the lines the comment points at
+  const isLongHunk = (comment: Comment) =>
+    !isProtected(comment) &&
+    ((comment.diff_hunk &&
+      comment.diff_hunk.split("\n").length > BUDGET_CODE_LINES) ||
+      comment.code_context?.lines.length > BUDGET_CODE_LINES);
+  if (allPRs(data).some((prData) => prData.reviewComments.some(isLongHunk))) {
+    data = mapPRs(data, (prData) => ({
+      ...prData,
+      reviewComments: prData.reviewComments.map((comment) =>
+        isLongHunk(comment)
+          ? {
+              ...comment,
+              diff_hunk:
+                comment.diff_hunk &&
+                `... (truncated)\n${comment.diff_hunk
+                  .split("\n")
+                  .slice(-BUDGET_CODE_LINES)
+                  .join("\n")}`,
+              code_context:
+                comment.code_context &&
+                narrowCodeWindow(comment.code_context, BUDGET_CODE_LINES),
+            }
+          : comment
+      ),
+    }));
+    budgetNotes.push(
+      `truncated code context to the last ${BUDGET_CODE_LINES} lines`
+    );
+    if (fitsBudget()) return finish();
+  }
+
+  // 3. Summarize the oldest comments first, a tenth of them at a time
+  const candidates = allPRs(data)
+    .flatMap((prData) => [
+      ...prData.reviews,
+      ...prData.reviewComments,
+      ...prData.issueComments,
+    ])
+    .filter(
+      (item) =>
+        !isProtected(item) &&
+        summarizeCommentBody(item.body).length < item.body.length
+    )
+    .sort((a, b) => (a.created_at || "").localeCompare(b.created_at || ""));
+  const batchSize = Math.max(1, Math.ceil(candidates.length / 10));
+  const unsummarized = data;
+  const noteIndex = budgetNotes.length;
+
+  for (let count = batchSize; candidates.length > 0; count += batchSize) {
+    const summarized = new Set(candidates.slice(0, count));
+    // The stored priority was detected from the full text
+    const summarize = (items: Comment[]) =>
+      items.map((item) =>
+        summarized.has(item)
+          ? { ...item, body: summarizeCommentBody(item.body) }
+          : item
+      );
+    data = mapPRs(unsummarized, (prData) => ({
+      ...prData,
+      reviews: summarize(prData.reviews),
+      reviewComments: summarize(prData.reviewComments),
+      issueComments: summarize(prData.issueComments),
+    }));
+    budgetNotes[noteIndex] = `summarized the ${summarized.size} oldest comment${
+      summarized.size === 1 ? "" : "s"
+    }`;
+    if (fitsBudget() || count >= candidates.length) break;
+  }
+
+  return finish();
+}
+
+// Write the suggested changes to a patch file Jules (or git) can apply
+function exportSuggestionPatch(
+  extractedData: ExtractedData,
+  patchFile: string
+): void {
+  const { suggestions } = classifyFeedback(extractedData);
+  const { patch, skipped } = buildUnifiedPatch(suggestions);
+
+  if (skipped > 0) {
+    logWarning(
+      `${skipped} suggestion(s) left out of the patch (original lines unknown or overlapping)`
+    );
+  }
+  if (!patch) {
+    logWarning("No applicable suggestions found - patch file not written");
+    return;
+  }
+
+  const patchPath = resolve(process.cwd(), patchFile);
+  writeFileSync(patchPath, patch);
+  logSuccess(
+    `🩹 Wrote ${suggestions.length - skipped} suggestion(s) to ${patchPath}`
+  );
+}
+
+const DEFAULT_TEMPLATE_PATH = join(__dirname, "..", "templates", "default.md");
+
+function loadOutputTemplate(): string {
+  if (config.output.template) {
+    const templatePath = resolve(process.cwd(), config.output.template);
+    if (existsSync(templatePath)) {
+      return readFileSync(templatePath, "utf-8");
     }
+    logWarning(
+      `Output template not found at ${templatePath}, using the default layout`
+    );
   }
+  return readFileSync(DEFAULT_TEMPLATE_PATH, "utf-8");
+}
 
-  return output;
+// Render the output template with the normalized extraction data plus the
+// built-in sections, both by name and in their configured order
+function renderOutput(
+  extractedData: ExtractedData,
+  sections: Record<string, string>,
+  sectionOrder: string[]
+): string {
+  const { prInfo, linearInfo, prDetails } = extractedData;
+
+  return renderTemplate(loadOutputTemplate(), {
+    ...buildJsonOutput(extractedData),
+    isLinearOnly: !!linearInfo && !prInfo,
+    branchName: prDetails?.head_ref || linearInfo?.branchName || null,
+    sections,
+    orderedSections: getOrderedSections(sections, sectionOrder),
+  });
+}
+
+// Section contents in the given order, skipping empty ones unless configured
+function getOrderedSections(
+  sections: Record<string, string>,
+  sectionOrder: string[]
+): string[] {
+  return sectionOrder
+    .filter(
+      (sectionName) =>
+        sections[sectionName] &&
+        (config.filtering.includeEmptySections ||
+          sections[sectionName].trim())
+    )
+    .map((sectionName) => sections[sectionName]);
+}
+
+// Version of the JSON document emitted by --format json. Bump on breaking
+// changes and keep schemas/extraction.schema.json in sync.
+const JSON_SCHEMA_VERSION = 1;
+
+function toJsonFeedbackItem(comment: Comment) {
+  return {
+    id: comment.id ?? null,
+    author: comment.author,
+    body: comment.body,
+    createdAt: comment.created_at || null,
+    state: comment.state || null,
+    priority: comment.priority!,
+    priorityReasons: comment.priorityReasons || [],
+    category: comment.category || null,
+    isBot: !!comment.isBot,
+  };
+}
+
+function toJsonThread(thread: Comment, collapsed: boolean) {
+  const comments = [thread, ...(thread.replies || [])];
+  return {
+    id: thread.id ?? null,
+    path: thread.path || null,
+    line: thread.line ?? null,
+    priority: thread.priority!,
+    isBot: comments.every((comment) => comment.isBot),
+    isResolved: !!thread.isResolved,
+    isOutdated: !!thread.isOutdated,
+    collapsed,
+    diffHunk: thread.diff_hunk || null,
+    codeContext: thread.code_context
+      ? {
+          path: thread.code_context.path,
+          ref: thread.code_context.ref,
+          startLine: thread.code_context.startLine,
+          lines: thread.code_context.lines,
+          targetStart: thread.code_context.targetStart,
+          targetEnd: thread.code_context.targetEnd,
+          changed: thread.code_context.changed,
+          outdated: thread.code_context.outdated,
+          reviewedLine: thread.code_context.reviewedLine,
+        }
+      : null,
+    comments: comments.map(toJsonFeedbackItem),
+  };
+}
+
+function buildJsonOutput(
+  extractedData: ExtractedData,
+  aiSummary?: string
+): Record<string, unknown> {
+  const { prInfo, linearInfo, prDetails, truncatedLists, sinceCommit } =
+    extractedData;
+  const feedback = classifyFeedback(extractedData);
+
+  const countPriorities = (comments: Comment[]) => ({
+    HIGH: comments.filter((c) => c.priority === "HIGH").length,
+    MEDIUM: comments.filter((c) => c.priority === "MEDIUM").length,
+    LOW: comments.filter((c) => c.priority === "LOW").length,
+  });
+  const humanComments = [
+    ...feedback.humanReviews,
+    ...feedback.humanReviewComments,
+    ...feedback.humanIssueComments,
+  ];
+  const botComments = [
+    ...feedback.botReviews,
+    ...feedback.botReviewThreads,
+    ...feedback.botIssueComments,
+  ];
+
+  return {
+    schemaVersion: JSON_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    prInfo:
+      prInfo && prDetails
+        ? {
+            owner: prInfo.owner,
+            repo: prInfo.repo,
+            number: prInfo.number,
+            url: prDetails.html_url,
+            title: prDetails.title,
+            body: prDetails.body || null,
+            headRef: prDetails.head_ref,
+            baseRef: prDetails.base_ref,
+            state: prDetails.state,
+            draft: !!prDetails.draft,
+          }
+        : null,
+    // The linked issue from whichever tracker is configured
+    issue: linearInfo
+      ? {
+          tracker: linearInfo.tracker,
+          id: linearInfo.id,
+          title: linearInfo.title,
+          description: linearInfo.description || null,
+          url: linearInfo.url,
+          state: linearInfo.state,
+          priority: linearInfo.priority,
+          priorityLabel: linearInfo.priorityLabel,
+          assignee: linearInfo.assignee,
+          team: linearInfo.team,
+          labels: linearInfo.labels,
+          branchName: linearInfo.branchName || null,
+          comments: linearInfo.comments.map((comment) => ({
+            author: comment.user.name,
+            body: comment.body,
+            createdAt: new Date(comment.createdAt).toISOString(),
+          })),
+          attachments: linearInfo.attachments.map((attachment) => ({
+            url: attachment.url,
+            title: attachment.title || null,
+          })),
+          parent: linearInfo.parent
+            ? {
+                ...linearInfo.parent,
+                description: linearInfo.parent.description || null,
+              }
+            : null,
+          subIssues: linearInfo.subIssues,
+          relations: linearInfo.relations,
+          project: linearInfo.project
+            ? {
+                name: linearInfo.project.name,
+                description: linearInfo.project.description || null,
+                targetDate: linearInfo.project.targetDate || null,
+                url: linearInfo.project.url,
+              }
+            : null,
+          cycle: linearInfo.cycle,
+          milestone: linearInfo.milestone
+            ? {
+                name: linearInfo.milestone.name,
+                targetDate: linearInfo.milestone.targetDate || null,
+              }
+            : null,
+        }
+      : null,
+    reviews: [...feedback.humanReviews, ...feedback.botReviews].map(
+      toJsonFeedbackItem
+    ),
+    threads: [
+      ...feedback.humanReviewComments.map((t) => toJsonThread(t, false)),
+      ...feedback.botReviewThreads.map((t) => toJsonThread(t, false)),
+      ...feedback.addressedReviewComments.map((t) => toJsonThread(t, true)),
+    ],
+    issueComments: [
+      ...feedback.humanIssueComments,
+      ...feedback.botIssueComments,
+    ].map(toJsonFeedbackItem),
+    suggestions: feedback.suggestions,
+    botReports: feedback.botReports.map(({ comment, result }) => ({
+      commentId: comment.id ?? null,
+      author: comment.author,
+      title: result.title,
+      summary: result.summary,
+      findings: result.findings.map((finding) => ({
+        text: finding.text,
+        path: finding.path || null,
+        line: finding.line ?? null,
+        url: finding.url || null,
+      })),
+    })),
+    ciChecks: extractedData.ciChecks,
+    changedFiles: extractedData.changedFiles.map((file) => ({
+      path: file.path,
+      previousPath: file.previousPath || null,
+      status: file.status,
+      additions: file.additions,
+      deletions: file.deletions,
+    })),
+    priorities: {
+      human: countPriorities(humanComments),
+      bot: countPriorities(botComments),
+    },
+    categories: {
+      human: countCategories(humanComments),
+      bot: countCategories(botComments),
+    },
+    truncatedLists,
+    sinceCommit: sinceCommit || null,
+    aiSummary: aiSummary || null,
+    additionalPRs: extractedData.additionalPRs.map((prData) =>
+      buildJsonOutput(prData)
+    ),
+  };
 }
 
 async function processInput(input: string): Promise<ExtractedData> {
@@ -917,29 +2429,42 @@ async function processInput(input: string): Promise<ExtractedData> {
     reviews: [],
     reviewComments: [],
     issueComments: [],
+    changedFiles: [],
+    ciChecks: [],
+    truncatedLists: [],
+    additionalPRs: [],
   };
 
   let foundSomething = false;
 
-  // Determine if input looks like Linear ID or PR number
-  const isLinearId = /[A-Z]/.test(input);
+  // Determine if input is a tracker issue or a PR (number, URL or owner/repo#123)
+  const parsedInput = parseInput(input, issueTracker);
+  if (!parsedInput) {
+    throw new Error(
+      `Unrecognized input "${input}". Use a PR number, PR URL, owner/repo#123, ${issueTracker.name} issue ID or ${issueTracker.name} issue URL.`
+    );
+  }
 
-  if (isLinearId) {
-    logInfo(`🔍 Processing as Linear issue: ${input}`);
+  if (parsedInput.type === "issue") {
+    logInfo(`🔍 Processing as ${issueTracker.name} issue: ${parsedInput.id}`);
 
     // Try to fetch Linear issue
-    const linearInfo = await fetchLinearIssue(input);
+    const linearInfo = await issueTracker.fetchIssue(parsedInput.id);
     if (linearInfo) {
       extractedData.linearInfo = linearInfo;
       foundSomething = true;
 
-      // Try to find associated PR
-      let prInfo = await findPRFromLinearAttachments(linearInfo);
-      if (!prInfo && linearInfo.branchName) {
-        prInfo = await findPRFromBranch(linearInfo.branchName);
+      // Try to find associated PRs
+      let prInfos = await selectLinkedPRs(
+        findPRsFromLinearAttachments(linearInfo)
+      );
+      if (prInfos.length === 0 && linearInfo.branchName) {
+        const prInfo = await findPRFromBranch(linearInfo.branchName);
+        if (prInfo) prInfos = [prInfo];
       }
 
-      if (prInfo) {
+      if (prInfos.length > 0) {
+        const [prInfo, ...otherPRs] = prInfos;
         extractedData.prInfo = prInfo;
         const prData = await fetchPRData(prInfo);
         if (prData) {
@@ -947,18 +2472,40 @@ async function processInput(input: string): Promise<ExtractedData> {
           extractedData.reviews = prData.reviews;
           extractedData.reviewComments = prData.reviewComments;
           extractedData.issueComments = prData.issueComments;
+          extractedData.changedFiles = prData.changedFiles;
+          extractedData.ciChecks = prData.ciChecks;
+          extractedData.truncatedLists = prData.truncatedLists;
+          extractedData.sinceCommit = prData.sinceCommit;
+        }
+
+        for (const otherPR of otherPRs) {
+          const otherData = await fetchPRData(otherPR);
+          if (otherData) {
+            extractedData.additionalPRs.push({
+              ...otherData,
+              prInfo: otherPR,
+              linearInfo,
+              additionalPRs: [],
+            });
+          }
         }
       } else {
         // Only prompt for GitHub PR number if not running in no-clipboard-output mode
         if (!suppressLogs && config.workflow.enableInteractivePrompts) {
-          logInfo("\n📎 No GitHub PR found attached to this Linear issue.");
+          logInfo(
+            `\n📎 No GitHub PR found attached to this ${issueTracker.name} issue.`
+          );
           const prNumber = await promptUser(
-            "🤔 Enter GitHub PR number (or press Enter to skip): "
+            "🤔 Enter GitHub PR number or URL (or press Enter to skip): "
           );
-          if (prNumber) {
+          const parsedPR = prNumber ? parseInput(prNumber, issueTracker) : null;
+          if (parsedPR?.type === "pr") {
             try {
-              const { owner, repo } = await getCurrentRepoInfo();
-              const prInfo = { owner, repo, number: parseInt(prNumber) };
+              const { owner, repo } =
+                parsedPR.owner && parsedPR.repo
+                  ? { owner: parsedPR.owner, repo: parsedPR.repo }
+                  : await getCurrentRepoInfo();
+              const prInfo = { owner, repo, number: parsedPR.number };
               const prData = await fetchPRData(prInfo);
               if (prData) {
                 extractedData.prInfo = prInfo;
@@ -966,22 +2513,32 @@ async function processInput(input: string): Promise<ExtractedData> {
                 extractedData.reviews = prData.reviews;
                 extractedData.reviewComments = prData.reviewComments;
                 extractedData.issueComments = prData.issueComments;
+                extractedData.changedFiles = prData.changedFiles;
+                extractedData.ciChecks = prData.ciChecks;
+                extractedData.truncatedLists = prData.truncatedLists;
+                extractedData.sinceCommit = prData.sinceCommit;
               }
             } catch (error) {
               logWarning(`Could not fetch PR ${prNumber}`);
             }
+          } else if (prNumber) {
+            logWarning(`"${prNumber}" is not a PR number or URL - skipping`);
           }
         }
         // When suppressLogs is true (--no-clipboard-output), just continue with Linear-only data
       }
     }
   } else {
-    logInfo(`🔍 Processing as GitHub PR: ${input}`);
-
-    // Try to fetch GitHub PR
+    // Try to fetch GitHub PR, from the repo named in the input if any
     try {
-      const { owner, repo } = await getCurrentRepoInfo();
-      const prInfo = { owner, repo, number: parseInt(input) };
+      const { owner, repo } =
+        parsedInput.owner && parsedInput.repo
+          ? { owner: parsedInput.owner, repo: parsedInput.repo }
+          : await getCurrentRepoInfo();
+      logInfo(
+        `🔍 Processing as GitHub PR: ${owner}/${repo}#${parsedInput.number}`
+      );
+      const prInfo = { owner, repo, number: parsedInput.number };
       const prData = await fetchPRData(prInfo);
       if (prData) {
         extractedData.prInfo = prInfo;
@@ -989,15 +2546,21 @@ async function processInput(input: string): Promise<ExtractedData> {
         extractedData.reviews = prData.reviews;
         extractedData.reviewComments = prData.reviewComments;
         extractedData.issueComments = prData.issueComments;
+        extractedData.changedFiles = prData.changedFiles;
+        extractedData.ciChecks = prData.ciChecks;
+        extractedData.truncatedLists = prData.truncatedLists;
+        extractedData.sinceCommit = prData.sinceCommit;
         foundSomething = true;
 
-        // Try to find Linear issue from branch name
+        // Try to find the tracker issue from the branch name or PR body
         const branchName = prData.prDetails?.head_ref;
         if (branchName) {
-          const linearMatch = branchName.match(/([A-Z]{2,10}-\d+)/);
-          if (linearMatch) {
-            const linearId = linearMatch[1];
-            const linearInfo = await fetchLinearIssue(linearId);
+          const linearId = issueTracker.findIssueIdForPR({
+            branchName,
+            body: prData.prDetails.body,
+          });
+          if (linearId) {
+            const linearInfo = await issueTracker.fetchIssue(linearId);
             if (linearInfo) {
               extractedData.linearInfo = linearInfo;
             }
@@ -1009,13 +2572,16 @@ async function processInput(input: string): Promise<ExtractedData> {
           !suppressLogs &&
           config.workflow.enableInteractivePrompts
         ) {
-          // Only prompt for Linear issue ID if not running in no-clipboard-output mode
-          logInfo("\n📎 No Linear issue found for this PR branch.");
+          // Only prompt for an issue ID if not running in no-clipboard-output mode
+          logInfo(`\n📎 No ${issueTracker.name} issue found for this PR branch.`);
           const linearId = await promptUser(
-            "🤔 Enter Linear issue ID (or press Enter to skip): "
+            `🤔 Enter ${issueTracker.name} issue ID or URL (or press Enter to skip): `
           );
-          if (linearId) {
-            const linearInfo = await fetchLinearIssue(linearId);
+          const parsedLinear = linearId
+            ? parseInput(linearId, issueTracker)
+            : null;
+          if (parsedLinear?.type === "issue") {
+            const linearInfo = await issueTracker.fetchIssue(parsedLinear.id);
             if (linearInfo) {
               extractedData.linearInfo = linearInfo;
             }
@@ -1033,6 +2599,10 @@ async function processInput(input: string): Promise<ExtractedData> {
     );
   }
 
+  if (config.priority.classifier.mode === "ai") {
+    await applyAIClassification(extractedData);
+  }
+
   return extractedData;
 }
 
@@ -1205,15 +2775,27 @@ async function main() {
 🔧 **Unified PR/Issue Discussion Extractor**
 
 USAGE:
-  npm run extract-pr <PR_NUMBER|LINEAR_ID> [options]
+  npm run extract-pr <PR_NUMBER|PR_URL|OWNER/REPO#N|LINEAR_ID|LINEAR_URL> [options]
 
 EXAMPLES:
   npm run extract-pr 123        Extract GitHub PR #123 (+ find Linear issue)
   npm run extract-pr GRE-456    Extract Linear issue GRE-456 (+ find GitHub PR)
+  npm run extract-pr acme/api#42
+                                Extract PR #42 from another repository
+  npm run extract-pr https://github.com/acme/api/pull/42
+  npm run extract-pr https://linear.app/acme/issue/GRE-456/login
+                                PR and Linear URLs work too
+  npm run extract-pr issue:45   Extract GitHub issue #45 (integrations.issueTracker: "github"; #45 works too)
 
 OPTIONS:
   -j, --jules               Jules mode: Copy branch name first (or Linear issue ID if no PR), then full discussion
   -s, --summary             Generate AI summary using Gemini
+  --since-last-commit       Only include feedback posted after the coding agent's latest commit
+  --since <date>            Only include feedback posted after an ISO 8601 date
+  --format <markdown|json>  Output format; json emits the document described in schemas/extraction.schema.json
+  --export-patch <file>     Write reviewers' suggested changes to a unified patch (apply with git apply --unidiff-zero)
+  --all-prs                 Include every PR linked to a Linear issue, each under its own heading
+  --prs <numbers>           Linked PRs to include, e.g. --prs 12,15
   --no-clipboard-output     Suppress clipboard operations and debug output (for script usage)
   --help                    Show this help
 
@@ -1226,8 +2808,9 @@ FEATURES:
   🔄 **Bot Filtering**: Separates human feedback from bot suggestions
 
 ENVIRONMENT:
-  LINEAR_API_KEY   - Required for Linear integration
-  GEMINI_API_KEY   - Required for AI summaries
+  LINEAR_API_KEY   - Required for Linear integration (the GitHub Issues tracker uses the GitHub token)
+  JIRA_API_TOKEN   - Jira API token (with JIRA_EMAIL for Jira Cloud, alone for a Data Center PAT; JIRA_BASE_URL overrides integrations.jira.baseUrl)
+  GEMINI_API_KEY   - Required for AI summaries and AI priority classification
 
 RATE LIMITS (Gemini):
   RPM: 10 | TPM: 250,000 | RDP: 500
@@ -1240,19 +2823,52 @@ RATE LIMITS (Gemini):
       logError("Usage: npm run extract-pr <PR_NUMBER|LINEAR_ISSUE_ID>");
       logError("Examples:");
       logError("  npm run extract-pr 123           # GitHub PR number");
-      logError("  npm run extract-pr GRE-456       # Linear issue ID");
+      logError("  npm run extract-pr acme/api#42   # PR in another repo (or a PR URL)");
+      logError("  npm run extract-pr GRE-456       # Linear issue ID (or a Linear URL)");
       logError("  npm run extract-pr --help        # Show this help");
       closeReadlineInterface();
       process.exit(1);
     }
 
-    const input = args.find((arg) => !arg.startsWith("-")) || args[0];
+    const input =
+      args.find(
+        (arg, i) =>
+          !arg.startsWith("-") &&
+          !["--format", "--export-patch", "--prs", "--since"].includes(
+            args[i - 1]
+          )
+      ) || args[0];
     const julesFlag = args.includes("-j") || args.includes("--jules");
     const summaryFlag = args.includes("-s") || args.includes("--summary");
     const noClipboardOutput = args.includes("--no-clipboard-output");
+    sinceLastCommit = args.includes("--since-last-commit");
+    const sinceArg = args.find((arg, i) => args[i - 1] === "--since");
+    if (sinceArg !== undefined) {
+      if (isNaN(Date.parse(sinceArg))) {
+        logError(`Invalid --since date "${sinceArg}" (use ISO 8601)`);
+        closeReadlineInterface();
+        process.exit(1);
+      }
+      // Same form as GitHub's timestamps, which are compared as strings
+      sinceDate = new Date(sinceArg).toISOString().replace(/\.\d{3}Z$/, "Z");
+    }
+    const patchFile = args.find((arg, i) => args[i - 1] === "--export-patch");
+    includeAllPRs = args.includes("--all-prs");
+    selectedPRNumbers = (args.find((arg, i) => args[i - 1] === "--prs") || "")
+      .split(",")
+      .map((prNumber) => parseInt(prNumber.replace("#", "").trim()))
+      .filter((prNumber) => !isNaN(prNumber));
+    const outputFormat =
+      args.find((arg, i) => args[i - 1] === "--format") || "markdown";
+    if (!["markdown", "json"].includes(outputFormat)) {
+      logError(`Unknown --format "${outputFormat}" (use markdown or json)`);
+      closeReadlineInterface();
+      process.exit(1);
+    }
 
     // Set global flag to suppress logs when called by another script
-    suppressLogs = noClipboardOutput;
+    // (JSON output too, since logs would corrupt the document on stdout)
+    suppressLogs = noClipboardOutput || outputFormat === "json";
 
     const startTime = Date.now();
 
@@ -1261,6 +2877,10 @@ RATE LIMITS (Gemini):
     // Process the input and extract all data
     const extractedData = await processInput(input);
 
+    if (patchFile) {
+      exportSuggestionPatch(extractedData, patchFile);
+    }
+
     // Handle Jules mode
     if (julesFlag) {
       await julesMode(extractedData);
@@ -1268,9 +2888,6 @@ RATE LIMITS (Gemini):
       return;
     }
 
-    // Generate the formatted output
-    const output = formatOutput(extractedData);
-
     // Generate AI summary if requested
     let summary = "";
     if (summaryFlag) {
@@ -1278,6 +2895,18 @@ RATE LIMITS (Gemini):
       summary = await generateAISummary(extractedData);
     }
 
+    // JSON output replaces the Markdown entirely (summary goes in a field)
+    if (outputFormat === "json") {
+      console.log(
+        JSON.stringify(buildJsonOutput(extractedData, summary), null, 2)
+      );
+      closeReadlineInterface();
+      return;
+    }
+
+    // Generate the formatted output
+    const output = formatOutput(extractedData);
+
     const processingTime = Date.now() - startTime;
 
     // Only show full output and clipboard operations if not suppressed
@@ -1358,6 +2987,8 @@ RATE LIMITS (Gemini):
     closeReadlineInterface();
   } catch (error) {
     logError(`Script failed: ${error}`);
+    // Calling scripts suppress logs but still need to know why it failed
+    if (suppressLogs) console.error(`Script failed: ${error}`);
     closeReadlineInterface();
     process.exit(1);
   }
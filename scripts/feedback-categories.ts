@@ -0,0 +1,61 @@
+// Sort review feedback into categories (bug, tests, docs, ...) so related
+// comments can be handed to Jules as one task. Uses the same weighted,
+// whole-word rules as priority scoring; the best-scoring category wins.
+
+import { getPatternKey, toRegExp } from "./priority-scoring";
+
+// Also the tie-break order, most pressing first
+export const FEEDBACK_CATEGORIES = [
+  "bug",
+  "security",
+  "tests",
+  "performance",
+  "style",
+  "docs",
+  "question",
+] as const;
+
+export type FeedbackCategory = (typeof FEEDBACK_CATEGORIES)[number];
+
+export interface CategoryRule {
+  // A word or phrase (case-insensitive, whole words only) or a regex
+  pattern: string | RegExp;
+  category: FeedbackCategory;
+  weight: number;
+}
+
+export interface CategoryScoringOptions {
+  // Later rules with the same pattern replace earlier ones
+  rules: CategoryRule[];
+}
+
+export function isFeedbackCategory(value: unknown): value is FeedbackCategory {
+  return (FEEDBACK_CATEGORIES as readonly unknown[]).includes(value);
+}
+
+// The best-scoring category, or null when no rule matches
+export function detectCategory(
+  body: string,
+  options: CategoryScoringOptions
+): FeedbackCategory | null {
+  const scores = new Map<FeedbackCategory, number>();
+
+  const rules = new Map<string, CategoryRule>();
+  options.rules.forEach((rule) =>
+    rules.set(getPatternKey(rule.pattern), rule)
+  );
+
+  for (const rule of rules.values()) {
+    if (!rule.weight || !toRegExp(rule.pattern).test(body)) continue;
+    scores.set(rule.category, (scores.get(rule.category) || 0) + rule.weight);
+  }
+
+  let best: FeedbackCategory | null = null;
+  for (const category of FEEDBACK_CATEGORIES) {
+    const score = scores.get(category) || 0;
+    if (score > 0 && (best === null || score > scores.get(best)!)) {
+      best = category;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,93 @@
+// Group near-duplicate feedback ("Consider adding error handling here" on a
+// dozen lines) so each variant is shown once. Text is normalized, then
+// compared by the Dice coefficient of its character trigrams.
+
+const NGRAM_SIZE = 3;
+
+export interface FeedbackCluster<T> {
+  // The first item of the cluster, shown in its place
+  representative: T;
+  items: T[];
+}
+
+// Lowercase, with code, links, Markdown and numbers flattened so variants
+// that only differ in identifiers or line numbers compare equal
+export function normalizeFeedbackText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/```[\s\S]*?```/g, " code ")
+    .replace(/`[^`]*`/g, " code ")
+    .replace(/https?:\/\/\S+/g, " link ")
+    .replace(/<!--[\s\S]*?-->|<[^>]+>/g, " ")
+    .replace(/\d+/g, "#")
+    .replace(/[^\w#\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function getNgrams(text: string): Set<string> {
+  const padded = ` ${text} `;
+  const ngrams = new Set<string>();
+  for (let i = 0; i <= padded.length - NGRAM_SIZE; i++) {
+    ngrams.add(padded.substring(i, i + NGRAM_SIZE));
+  }
+  return ngrams;
+}
+
+function diceCoefficient(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach((ngram) => {
+    if (b.has(ngram)) shared++;
+  });
+  return (2 * shared) / (a.size + b.size);
+}
+
+// Similarity of two texts after normalization, from 0 to 1
+export function textSimilarity(a: string, b: string): number {
+  return diceCoefficient(
+    getNgrams(normalizeFeedbackText(a)),
+    getNgrams(normalizeFeedbackText(b))
+  );
+}
+
+// Each item joins the most similar existing cluster (compared with its
+// representative) when at least `threshold` similar, or starts a new one.
+// Items with different keys (e.g. authors) never share a cluster.
+export function clusterBySimilarity<T>(
+  items: T[],
+  getText: (item: T) => string,
+  threshold: number,
+  getKey: (item: T) => string = () => ""
+): FeedbackCluster<T>[] {
+  const clusters: Array<
+    FeedbackCluster<T> & { key: string; ngrams: Set<string> }
+  > = [];
+
+  items.forEach((item) => {
+    const key = getKey(item);
+    const ngrams = getNgrams(normalizeFeedbackText(getText(item)));
+
+    let best: (typeof clusters)[number] | null = null;
+    let bestScore = threshold;
+    for (const cluster of clusters) {
+      if (cluster.key !== key) continue;
+      const score = diceCoefficient(ngrams, cluster.ngrams);
+      if (score >= bestScore) {
+        best = cluster;
+        bestScore = score;
+      }
+    }
+
+    if (best) {
+      best.items.push(item);
+    } else {
+      clusters.push({ representative: item, items: [item], key, ngrams });
+    }
+  });
+
+  return clusters.map(({ representative, items }) => ({
+    representative,
+    items,
+  }));
+}
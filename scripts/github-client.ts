@@ -0,0 +1,642 @@
+import { execSync } from "child_process";
+import { getConfig, JulesWorkflowConfig } from "./config-loader";
+
+export interface GitHubClientOptions {
+  baseUrl: string;
+  token: string | null;
+  maxItemsPerList: number;
+}
+
+export interface PaginatedList<T> {
+  items: T[];
+  // True when the configured item cap stopped pagination early
+  truncated: boolean;
+}
+
+export interface GitHubUser {
+  login: string;
+  type?: string;
+}
+
+export interface GitHubPullRequest {
+  number: number;
+  title: string;
+  body: string | null;
+  state: string;
+  draft: boolean;
+  html_url: string;
+  updated_at: string;
+  user: GitHubUser | null;
+  head: { ref: string; sha: string };
+  base: { ref: string };
+}
+
+export interface GitHubReview {
+  id: number;
+  user: GitHubUser | null;
+  body: string;
+  state: string;
+  submitted_at?: string;
+  author_association?: string;
+}
+
+export interface GitHubReviewComment {
+  id: number;
+  user: GitHubUser | null;
+  body: string;
+  path: string;
+  line: number | null;
+  start_line?: number | null;
+  // Line in the commit the comment was made on; kept once outdated
+  original_line?: number | null;
+  side?: "LEFT" | "RIGHT";
+  diff_hunk: string;
+  in_reply_to_id?: number;
+  created_at: string;
+  author_association?: string;
+}
+
+export interface GitHubPullRequestFile {
+  filename: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  changes: number;
+  // Omitted by GitHub for binary files and very large diffs
+  patch?: string;
+  previous_filename?: string;
+}
+
+export interface GitHubCheckRun {
+  id: number;
+  name: string;
+  status: string;
+  conclusion: string | null;
+  html_url: string | null;
+  app?: { slug: string } | null;
+  output?: { title: string | null; summary: string | null };
+}
+
+export interface GitHubCommitStatus {
+  context: string;
+  state: string;
+  description: string | null;
+  target_url: string | null;
+}
+
+export interface GitHubReviewThread {
+  id: string;
+  isResolved: boolean;
+  isOutdated: boolean;
+  // REST ids of the review comments in this thread
+  commentIds: number[];
+}
+
+export interface GitHubIssueComment {
+  id: number;
+  user: GitHubUser | null;
+  body: string;
+  created_at: string;
+  author_association?: string;
+}
+
+export interface GitHubIssue {
+  number: number;
+  title: string;
+  body: string | null;
+  state: string;
+  html_url: string;
+  user: GitHubUser | null;
+  labels: Array<{ name: string }>;
+  assignee: GitHubUser | null;
+  milestone: { title: string; due_on: string | null } | null;
+  // Present when the "issue" is really a pull request
+  pull_request?: { url: string };
+}
+
+export interface GitHubCommit {
+  sha: string;
+  commit: {
+    author: { name: string; email?: string; date: string } | null;
+    // Differs from the author after a rebase or amend
+    committer: { name: string; email?: string; date: string } | null;
+    message: string;
+  };
+}
+
+export interface GitHubClient {
+  options: GitHubClientOptions;
+  request<T>(
+    path: string,
+    init?: { method?: string; body?: unknown }
+  ): Promise<T>;
+  // itemsKey picks the list out of wrapped responses like { check_runs: [] }
+  paginate<T>(path: string, itemsKey?: string): Promise<PaginatedList<T>>;
+  graphql<T>(query: string, variables?: Record<string, unknown>): Promise<T>;
+  getPullRequest(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<GitHubPullRequest>;
+  listPullRequests(
+    owner: string,
+    repo: string,
+    query?: { state?: "open" | "closed" | "all"; head?: string }
+  ): Promise<PaginatedList<GitHubPullRequest>>;
+  listReviews(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<PaginatedList<GitHubReview>>;
+  listReviewComments(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<PaginatedList<GitHubReviewComment>>;
+  listReviewThreads(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<PaginatedList<GitHubReviewThread>>;
+  getIssue(owner: string, repo: string, number: number): Promise<GitHubIssue>;
+  // Includes pull requests, which GitHub treats as issues
+  listIssues(
+    owner: string,
+    repo: string,
+    query?: { state?: "open" | "closed" | "all" }
+  ): Promise<PaginatedList<GitHubIssue>>;
+  listIssueComments(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<PaginatedList<GitHubIssueComment>>;
+  listPullRequestCommits(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<PaginatedList<GitHubCommit>>;
+  listPullRequestFiles(
+    owner: string,
+    repo: string,
+    number: number
+  ): Promise<PaginatedList<GitHubPullRequestFile>>;
+  listCheckRuns(
+    owner: string,
+    repo: string,
+    ref: string
+  ): Promise<PaginatedList<GitHubCheckRun>>;
+  getCombinedStatus(
+    owner: string,
+    repo: string,
+    ref: string
+  ): Promise<{ state: string; statuses: GitHubCommitStatus[] }>;
+  getJobLogs(owner: string, repo: string, jobId: number): Promise<string>;
+  // Text of a file at a commit, branch or tag
+  getFileContent(
+    owner: string,
+    repo: string,
+    path: string,
+    ref: string
+  ): Promise<string>;
+  requestReviewers(
+    owner: string,
+    repo: string,
+    number: number,
+    reviewers: string[]
+  ): Promise<void>;
+}
+
+/**
+ * Resolve the GitHub token from the configured environment variables,
+ * falling back to the GitHub CLI's stored credentials when allowed.
+ */
+function resolveToken(config: JulesWorkflowConfig): string | null {
+  for (const envVar of config.integrations.github.tokenEnvVars) {
+    if (process.env[envVar]) {
+      return process.env[envVar]!;
+    }
+  }
+
+  if (config.integrations.github.useGhAuthToken) {
+    try {
+      const token = execSync("gh auth token", {
+        encoding: "utf-8",
+        stdio: ["ignore", "pipe", "ignore"],
+      }).trim();
+      if (token) return token;
+    } catch {
+      // gh not installed or not authenticated
+    }
+  }
+
+  return null;
+}
+
+export function resolveGitHubClientOptions(
+  config: JulesWorkflowConfig = getConfig()
+): GitHubClientOptions {
+  return {
+    baseUrl: (
+      process.env.GITHUB_API_URL || config.integrations.github.apiBaseUrl
+    ).replace(/\/+$/, ""),
+    token: resolveToken(config),
+    maxItemsPerList: config.integrations.github.maxItemsPerList,
+  };
+}
+
+// Extract the rel="next" URL from a GitHub Link header
+function getNextPageUrl(linkHeader: string | null): string | null {
+  if (!linkHeader) return null;
+  for (const part of linkHeader.split(",")) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="next"/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+// GraphQL lives at /graphql on github.com and /api/graphql on Enterprise
+function getGraphQLUrl(baseUrl: string): string {
+  return `${baseUrl.replace(/\/v3$/, "")}/graphql`;
+}
+
+const REVIEW_THREADS_QUERY = `
+  query ($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviewThreads(first: 100, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            id
+            isResolved
+            isOutdated
+            comments(first: 100) {
+              pageInfo { hasNextPage endCursor }
+              nodes { databaseId }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// The rest of a thread's comments, for threads with over 100
+const THREAD_COMMENTS_QUERY = `
+  query ($id: ID!, $cursor: String) {
+    node(id: $id) {
+      ... on PullRequestReviewThread {
+        comments(first: 100, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          nodes { databaseId }
+        }
+      }
+    }
+  }
+`;
+
+interface GraphQLPageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface ThreadCommentsConnection {
+  pageInfo: GraphQLPageInfo;
+  nodes: Array<{ databaseId: number }>;
+}
+
+interface ReviewThreadNode {
+  id: string;
+  isResolved: boolean;
+  isOutdated: boolean;
+  comments: ThreadCommentsConnection;
+}
+
+interface ReviewThreadsResponse {
+  repository: {
+    pullRequest: {
+      reviewThreads: {
+        pageInfo: GraphQLPageInfo;
+        nodes: ReviewThreadNode[];
+      };
+    };
+  };
+}
+
+interface ThreadCommentsResponse {
+  node: { comments: ThreadCommentsConnection };
+}
+
+function buildQuery(query: Record<string, string | number | undefined>) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : "";
+}
+
+export function createGitHubClient(
+  options: GitHubClientOptions = resolveGitHubClientOptions()
+): GitHubClient {
+  async function send(
+    path: string,
+    init: { method?: string; body?: unknown } = {}
+  ): Promise<Response> {
+    const url = path.startsWith("http") ? path : `${options.baseUrl}${path}`;
+    const headers: Record<string, string> = {
+      Accept: "application/vnd.github+json",
+      "X-GitHub-Api-Version": "2022-11-28",
+      "User-Agent": "google-jules-workflow",
+    };
+    if (options.token) {
+      headers.Authorization = `Bearer ${options.token}`;
+    }
+    if (init.body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    const response = await fetch(url, {
+      method: init.method || "GET",
+      headers,
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new Error(
+        `GitHub API ${init.method || "GET"} ${path} failed with ${
+          response.status
+        }: ${text || response.statusText}`
+      );
+    }
+
+    return response;
+  }
+
+  async function request<T>(
+    path: string,
+    init: { method?: string; body?: unknown } = {}
+  ): Promise<T> {
+    const response = await send(path, init);
+    if (response.status === 204) {
+      return undefined as T;
+    }
+    return (await response.json()) as T;
+  }
+
+  // Follow Link headers until the list is exhausted or the cap is reached
+  async function paginate<T>(
+    path: string,
+    itemsKey?: string
+  ): Promise<PaginatedList<T>> {
+    const items: T[] = [];
+    const separator = path.includes("?") ? "&" : "?";
+    let nextUrl: string | null = path.includes("per_page=")
+      ? path
+      : `${path}${separator}per_page=100`;
+
+    while (nextUrl) {
+      const response = await send(nextUrl);
+      const body = await response.json();
+      const page = (itemsKey ? body[itemsKey] : body) as T[];
+      items.push(...page);
+      nextUrl = getNextPageUrl(response.headers.get("link"));
+
+      const cap = options.maxItemsPerList;
+      if (cap > 0 && items.length >= cap) {
+        return {
+          items: items.slice(0, cap),
+          truncated: nextUrl !== null || items.length > cap,
+        };
+      }
+    }
+
+    return { items, truncated: false };
+  }
+
+  async function graphql<T>(
+    query: string,
+    variables: Record<string, unknown> = {}
+  ): Promise<T> {
+    const response = await send(getGraphQLUrl(options.baseUrl), {
+      method: "POST",
+      body: { query, variables },
+    });
+    const result = (await response.json()) as {
+      data?: T;
+      errors?: Array<{ message: string }>;
+    };
+    if (result.errors && result.errors.length > 0) {
+      throw new Error(
+        `GitHub GraphQL query failed: ${result.errors
+          .map((error) => error.message)
+          .join("; ")}`
+      );
+    }
+    return result.data as T;
+  }
+
+  return {
+    options,
+    request,
+    paginate,
+    graphql,
+
+    getPullRequest(owner, repo, number) {
+      return request<GitHubPullRequest>(
+        `/repos/${owner}/${repo}/pulls/${number}`
+      );
+    },
+
+    listPullRequests(owner, repo, query = {}) {
+      return paginate<GitHubPullRequest>(
+        `/repos/${owner}/${repo}/pulls${buildQuery({
+          state: query.state || "open",
+          head: query.head,
+          per_page: 100,
+        })}`
+      );
+    },
+
+    listReviews(owner, repo, number) {
+      return paginate<GitHubReview>(
+        `/repos/${owner}/${repo}/pulls/${number}/reviews`
+      );
+    },
+
+    listReviewComments(owner, repo, number) {
+      return paginate<GitHubReviewComment>(
+        `/repos/${owner}/${repo}/pulls/${number}/comments`
+      );
+    },
+
+    async listReviewThreads(owner, repo, number) {
+      const threads: GitHubReviewThread[] = [];
+      let cursor: string | null = null;
+
+      const getCommentIds = async (
+        node: ReviewThreadNode
+      ): Promise<number[]> => {
+        const commentIds: number[] = [];
+        let comments = node.comments;
+        for (;;) {
+          comments.nodes.forEach((comment) =>
+            commentIds.push(comment.databaseId)
+          );
+          if (!comments.pageInfo.hasNextPage) return commentIds;
+          const data = await graphql<ThreadCommentsResponse>(
+            THREAD_COMMENTS_QUERY,
+            {
+              id: node.id,
+              cursor: comments.pageInfo.endCursor,
+            }
+          );
+          comments = data.node.comments;
+        }
+      };
+
+      do {
+        const data = await graphql<ReviewThreadsResponse>(
+          REVIEW_THREADS_QUERY,
+          { owner, repo, number, cursor }
+        );
+        const connection = data.repository.pullRequest.reviewThreads;
+        for (const node of connection.nodes) {
+          threads.push({
+            id: node.id,
+            isResolved: node.isResolved,
+            isOutdated: node.isOutdated,
+            commentIds: await getCommentIds(node),
+          });
+        }
+        cursor = connection.pageInfo.hasNextPage
+          ? connection.pageInfo.endCursor
+          : null;
+
+        const cap = options.maxItemsPerList;
+        if (cap > 0 && threads.length >= cap) {
+          return {
+            items: threads.slice(0, cap),
+            truncated: cursor !== null || threads.length > cap,
+          };
+        }
+      } while (cursor);
+
+      return { items: threads, truncated: false };
+    },
+
+    getIssue(owner, repo, number) {
+      return request<GitHubIssue>(`/repos/${owner}/${repo}/issues/${number}`);
+    },
+
+    listIssues(owner, repo, query = {}) {
+      return paginate<GitHubIssue>(
+        `/repos/${owner}/${repo}/issues${buildQuery({
+          state: query.state || "open",
+          per_page: 100,
+        })}`
+      );
+    },
+
+    listIssueComments(owner, repo, number) {
+      return paginate<GitHubIssueComment>(
+        `/repos/${owner}/${repo}/issues/${number}/comments`
+      );
+    },
+
+    listPullRequestCommits(owner, repo, number) {
+      return paginate<GitHubCommit>(
+        `/repos/${owner}/${repo}/pulls/${number}/commits`
+      );
+    },
+
+    listPullRequestFiles(owner, repo, number) {
+      return paginate<GitHubPullRequestFile>(
+        `/repos/${owner}/${repo}/pulls/${number}/files`
+      );
+    },
+
+    listCheckRuns(owner, repo, ref) {
+      return paginate<GitHubCheckRun>(
+        `/repos/${owner}/${repo}/commits/${ref}/check-runs`,
+        "check_runs"
+      );
+    },
+
+    getCombinedStatus(owner, repo, ref) {
+      return request<{ state: string; statuses: GitHubCommitStatus[] }>(
+        `/repos/${owner}/${repo}/commits/${ref}/status?per_page=100`
+      );
+    },
+
+    // Redirects to a short-lived download URL, which fetch follows
+    async getJobLogs(owner, repo, jobId) {
+      const response = await send(
+        `/repos/${owner}/${repo}/actions/jobs/${jobId}/logs`
+      );
+      return response.text();
+    },
+
+    async getFileContent(owner, repo, path, ref) {
+      const file = await request<{
+        type: string;
+        encoding?: string;
+        content?: string;
+      }>(
+        `/repos/${owner}/${repo}/contents/${path
+          .split("/")
+          .map(encodeURIComponent)
+          .join("/")}${buildQuery({ ref })}`
+      );
+      // Directories come back as arrays; files over 1 MB have no content
+      if (file.type !== "file" || file.encoding !== "base64") {
+        throw new Error(`${path} is not a file under 1 MB`);
+      }
+      return Buffer.from(file.content || "", "base64").toString("utf8");
+    },
+
+    async requestReviewers(owner, repo, number, reviewers) {
+      await request<unknown>(
+        `/repos/${owner}/${repo}/pulls/${number}/requested_reviewers`,
+        { method: "POST", body: { reviewers } }
+      );
+    },
+  };
+}
+
+// Most recent commit whose author name contains the given pattern
+export function findLastCommitByAuthor(
+  commits: GitHubCommit[],
+  authorPattern: string
+): GitHubCommit | null {
+  for (let i = commits.length - 1; i >= 0; i--) {
+    if (commits[i].commit.author?.name.includes(authorPattern)) {
+      return commits[i];
+    }
+  }
+  return null;
+}
+
+// Shared client instance, created lazily so config is loaded first
+let clientInstance: GitHubClient | null = null;
+
+export function getGitHubClient(): GitHubClient {
+  if (!clientInstance) {
+    clientInstance = createGitHubClient();
+  }
+  return clientInstance;
+}
+
+// Parse "owner/repo" from the current directory's origin remote. Any host
+// is accepted so GitHub Enterprise remotes work too; the path is the last
+// two segments of an HTTPS, ssh:// or scp-style (git@host:owner/repo) URL.
+export function getRepoFromGitRemote(): { owner: string; repo: string } {
+  const remoteUrl = execSync("git config --get remote.origin.url", {
+    encoding: "utf-8",
+  }).trim();
+  const match = remoteUrl.match(/[:/]([^/:]+)\/([^/:]+?)(?:\.git)?\/?$/);
+  if (!match) {
+    throw new Error("Could not parse GitHub repository from remote URL");
+  }
+  return { owner: match[1], repo: match[2] };
+}
@@ -0,0 +1,271 @@
+import { JulesWorkflowConfig } from "./config-loader";
+import {
+  getGitHubClient,
+  getRepoFromGitRemote,
+  GitHubIssue,
+  GitHubPullRequest,
+} from "./github-client";
+import {
+  IssueTracker,
+  PRIORITY_LABELS,
+  ReadyIssue,
+  sortReadyIssues,
+  TrackerIssue,
+  TrackerLogger,
+} from "./issue-tracker";
+
+// "#45", "issue:45" or an issue URL
+const ISSUE_INPUT_PATTERN = /^(?:#|issue:)(\d+)$/i;
+const ISSUE_URL_PATTERN =
+  /^(?:https?:\/\/)?[^/\s]+\/([^/\s]+)\/([^/\s]+)\/issues\/(\d+)(?:[/?#]\S*)?$/;
+// Canonical IDs: "#45" for the current repo, "owner/repo#45" otherwise
+const ISSUE_ID_PATTERN = /^(?:([\w.-]+)\/([\w.-]+))?#(\d+)$/;
+// GitHub's closing keywords: "Closes #45", "fixes: #45", ...
+const CLOSING_REFERENCE_PATTERN =
+  /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s*:?\s+#(\d+)\b/gi;
+// "45-fix-login", also after a prefix like "feature/45-fix-login"
+const BRANCH_ISSUE_PATTERN = /(?:^|\/)(\d+)-/;
+
+// Label names mapped onto the shared scale, checked in order
+const PRIORITY_LABEL_PATTERNS: Array<[RegExp, number]> = [
+  [/\b(?:p0|critical|urgent)\b/i, 1],
+  [/\b(?:p1|high)\b/i, 2],
+  [/\b(?:p2|medium)\b/i, 3],
+  [/\b(?:p3|low)\b/i, 4],
+];
+
+function toIssueNumbers(id: string): {
+  owner?: string;
+  repo?: string;
+  number: number;
+} {
+  const match = id.match(ISSUE_ID_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid GitHub issue ID "${id}"`);
+  }
+  return { owner: match[1], repo: match[2], number: parseInt(match[3]) };
+}
+
+function findIssueNumbersInPR(pr: {
+  branchName: string;
+  body: string | null;
+}): number[] {
+  const numbers = Array.from(
+    (pr.body || "").matchAll(CLOSING_REFERENCE_PATTERN),
+    (match) => parseInt(match[1])
+  );
+  const branchMatch = pr.branchName.match(BRANCH_ISSUE_PATTERN);
+  if (branchMatch) {
+    numbers.push(parseInt(branchMatch[1]));
+  }
+  return numbers;
+}
+
+function prLinksIssue(pr: GitHubPullRequest, issueNumber: number): boolean {
+  return findIssueNumbersInPR({
+    branchName: pr.head.ref,
+    body: pr.body,
+  }).includes(issueNumber);
+}
+
+function hasHumanLabel(issue: GitHubIssue): boolean {
+  return issue.labels.some((label) =>
+    label.name.toLowerCase().includes("human")
+  );
+}
+
+export function createGitHubIssuesTracker(
+  logger: TrackerLogger,
+  config: JulesWorkflowConfig
+): IssueTracker {
+  // The repo named in the ID, or the current repository
+  const resolveIssue = (id: string) => {
+    const { owner, repo, number } = toIssueNumbers(id);
+    return owner && repo
+      ? { owner, repo, number }
+      : { ...getRepoFromGitRemote(), number };
+  };
+
+  const tracker: IssueTracker = {
+    name: "GitHub",
+
+    getSetupProblem() {
+      return getGitHubClient().options.token
+        ? null
+        : "No GitHub token found for GitHub Issues";
+    },
+
+    setupInstructions: [
+      `Set one of: ${config.integrations.github.tokenEnvVars.join(", ")}`,
+      "Or log in with the GitHub CLI: gh auth login",
+    ],
+
+    async checkAccess() {
+      const { owner, repo } = getRepoFromGitRemote();
+      await getGitHubClient().listIssues(owner, repo);
+    },
+
+    parseIssueInput(input) {
+      const inputMatch = input.match(ISSUE_INPUT_PATTERN);
+      if (inputMatch) return `#${inputMatch[1]}`;
+
+      const urlMatch = input.match(ISSUE_URL_PATTERN);
+      if (urlMatch) {
+        try {
+          const current = getRepoFromGitRemote();
+          if (current.owner === urlMatch[1] && current.repo === urlMatch[2]) {
+            return `#${urlMatch[3]}`;
+          }
+        } catch {
+          // Not in a GitHub checkout, keep the repo in the ID
+        }
+        return `${urlMatch[1]}/${urlMatch[2]}#${urlMatch[3]}`;
+      }
+      return null;
+    },
+
+    // A closing keyword in the body wins over the branch name
+    findIssueIdForPR(pr) {
+      const [number] = findIssueNumbersInPR(pr);
+      return number ? `#${number}` : null;
+    },
+
+    // GitHub has no priority field, so use labels like "P1" or
+    // "priority: high"
+    mapPriority(nativePriority) {
+      const labels = Array.isArray(nativePriority) ? nativePriority : [];
+      let priority = 0;
+      for (const label of labels) {
+        const match = PRIORITY_LABEL_PATTERNS.find(([pattern]) =>
+          pattern.test(String(label))
+        );
+        if (match && (priority === 0 || match[1] < priority)) {
+          priority = match[1];
+        }
+      }
+      return { priority, priorityLabel: PRIORITY_LABELS[priority] };
+    },
+
+    async fetchIssue(issueId) {
+      const setupProblem = tracker.getSetupProblem();
+      if (setupProblem) {
+        logger.warn(setupProblem);
+        return null;
+      }
+
+      try {
+        const { owner, repo, number } = resolveIssue(issueId);
+        const github = getGitHubClient();
+        const issue = await github.getIssue(owner, repo, number);
+
+        if (issue.pull_request) {
+          logger.warn(
+            `${issueId} is a pull request - pass ${number} without the # to extract it`
+          );
+          return null;
+        }
+
+        logger.info(`✅ Found GitHub issue: ${issue.title}`);
+
+        const [{ items: comments }, { items: openPRs }] = await Promise.all([
+          github.listIssueComments(owner, repo, number),
+          github.listPullRequests(owner, repo),
+        ]);
+
+        const labels = issue.labels.map((label) => label.name);
+        const issueInfo: TrackerIssue = {
+          tracker: tracker.name,
+          id: issueId,
+          title: issue.title,
+          description: issue.body || undefined,
+          url: issue.html_url,
+          state: issue.state === "open" ? "Open" : "Closed",
+          ...tracker.mapPriority(labels),
+          assignee: issue.assignee
+            ? { name: issue.assignee.login, email: "" }
+            : null,
+          team: `${owner}/${repo}`,
+          labels,
+          comments: comments.map((comment) => ({
+            body: comment.body,
+            user: { name: comment.user?.login || "Unknown User" },
+            createdAt: new Date(comment.created_at),
+          })),
+          // Open PRs that close the issue or are named after it
+          attachments: openPRs
+            .filter((pr) => prLinksIssue(pr, number))
+            .map((pr) => ({ url: pr.html_url, title: pr.title })),
+          parent: null,
+          subIssues: [],
+          relations: [],
+          project: null,
+          cycle: null,
+          milestone: issue.milestone
+            ? {
+                name: issue.milestone.title,
+                targetDate: issue.milestone.due_on?.substring(0, 10),
+              }
+            : null,
+        };
+
+        return issueInfo;
+      } catch (error) {
+        logger.warn(`Could not fetch GitHub issue ${issueId}: ${error}`);
+        return null;
+      }
+    },
+
+    async fetchPriority(issueId) {
+      const { owner, repo, number } = resolveIssue(issueId);
+      const issue = await getGitHubClient().getIssue(owner, repo, number);
+      return tracker.mapPriority(issue.labels.map((label) => label.name))
+        .priority;
+    },
+
+    async listReadyIssues() {
+      const { owner, repo } = getRepoFromGitRemote();
+      const github = getGitHubClient();
+      const [{ items: issues }, { items: openPRs }] = await Promise.all([
+        github.listIssues(owner, repo),
+        github.listPullRequests(owner, repo),
+      ]);
+
+      const botUsers = config.filtering.botUsers;
+      const readyIssues: ReadyIssue[] = [];
+
+      for (const issue of issues) {
+        // The issues endpoint returns pull requests too
+        if (issue.pull_request) continue;
+
+        // Skip issues with a human label
+        if (hasHumanLabel(issue)) continue;
+
+        // Check if assignee is a bot (if configured to filter bots)
+        const assignee = issue.assignee?.login.toLowerCase();
+        if (
+          config.filtering.enableDeduplication &&
+          assignee &&
+          botUsers.some((bot) => assignee.includes(bot.toLowerCase()))
+        ) {
+          continue;
+        }
+
+        const labels = issue.labels.map((label) => label.name);
+        readyIssues.push({
+          id: `#${issue.number}`,
+          title: issue.title,
+          ...tracker.mapPriority(labels),
+          team: `${owner}/${repo}`,
+          state: "Open",
+          hasHumanLabel: false,
+          url: issue.html_url,
+          hasLinkedPR: openPRs.some((pr) => prLinksIssue(pr, issue.number)),
+        });
+      }
+
+      return sortReadyIssues(readyIssues);
+    },
+  };
+
+  return tracker;
+}
@@ -0,0 +1,50 @@
+import { createIssueTracker, IssueTracker } from "./issue-tracker";
+
+// Work out what an extraction input refers to: a PR number, a PR URL,
+// owner/repo#123 shorthand, or an issue ID / URL of the configured tracker.
+
+export type ParsedInput =
+  | {
+      type: "pr";
+      number: number;
+      // Set when the input names the repository; otherwise use the git remote
+      owner?: string;
+      repo?: string;
+    }
+  | { type: "issue"; id: string };
+
+const PR_URL_PATTERN =
+  /^(?:https?:\/\/)?[^/\s]+\/([^/\s]+)\/([^/\s]+)\/pull\/(\d+)(?:[/?#]\S*)?$/;
+const PR_SHORTHAND_PATTERN = /^([\w.-]+)\/([\w.-]+)#(\d+)$/;
+const PR_NUMBER_PATTERN = /^#?(\d+)$/;
+
+export function parseInput(
+  input: string,
+  tracker: IssueTracker = createIssueTracker()
+): ParsedInput | null {
+  const value = input.trim();
+
+  const prMatch =
+    value.match(PR_URL_PATTERN) || value.match(PR_SHORTHAND_PATTERN);
+  if (prMatch) {
+    return {
+      type: "pr",
+      owner: prMatch[1],
+      repo: prMatch[2],
+      number: parseInt(prMatch[3]),
+    };
+  }
+
+  // The tracker goes before bare numbers so it can claim forms like "#45"
+  const issueId = tracker.parseIssueInput(value);
+  if (issueId) {
+    return { type: "issue", id: issueId };
+  }
+
+  const numberMatch = value.match(PR_NUMBER_PATTERN);
+  if (numberMatch) {
+    return { type: "pr", number: parseInt(numberMatch[1]) };
+  }
+
+  return null;
+}
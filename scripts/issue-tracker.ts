@@ -0,0 +1,133 @@
+import { getConfig, JulesWorkflowConfig } from "./config-loader";
+import { createGitHubIssuesTracker } from "./github-issues-tracker";
+import { createJiraTracker } from "./jira-tracker";
+import { createLinearTracker } from "./linear-tracker";
+
+// Issue-tracker abstraction: the extractor and PR manager talk to the
+// configured tracker (integrations.issueTracker) through this interface.
+
+export interface LinkedIssue {
+  id: string;
+  title: string;
+  state: string;
+  url: string;
+}
+
+export interface TrackerIssue {
+  // Display name of the tracker the issue came from ("Linear", "GitHub")
+  tracker: string;
+  id: string;
+  title: string;
+  description?: string;
+  comments: Array<{
+    body: string;
+    user: {
+      name: string;
+    };
+    createdAt: Date;
+  }>;
+  attachments: Array<{
+    url: string;
+    title?: string;
+  }>;
+  branchName?: string;
+  url: string;
+  state: string;
+  // Shared scale: 0 = none, 1 = urgent, 2 = high, 3 = medium, 4 = low
+  priority: number;
+  priorityLabel: string;
+  assignee: {
+    name: string;
+    email: string;
+  } | null;
+  team: string;
+  labels: string[];
+  parent: (LinkedIssue & { description?: string }) | null;
+  subIssues: LinkedIssue[];
+  relations: Array<LinkedIssue & { type: "blocks" | "blocked by" | "related" }>;
+  project: {
+    name: string;
+    description?: string;
+    targetDate?: string;
+    url: string;
+  } | null;
+  cycle: { name: string; startsAt: string; endsAt: string } | null;
+  milestone: { name: string; targetDate?: string } | null;
+}
+
+// Open issue that may be ready for the coding agent to pick up
+export interface ReadyIssue {
+  id: string;
+  title: string;
+  priority: number;
+  priorityLabel: string;
+  team: string;
+  state: string;
+  hasHumanLabel: boolean;
+  url: string;
+  branchName?: string;
+  // The tracker already links the issue to a GitHub PR
+  hasLinkedPR: boolean;
+}
+
+export interface TrackerLogger {
+  info(message: string): void;
+  warn(message: string): void;
+}
+
+export interface IssueTracker {
+  // Display name used in headings and messages ("Linear", "GitHub")
+  name: string;
+  // What's missing before the tracker can be used, or null when it's ready
+  getSetupProblem(): string | null;
+  // Steps to fix the setup problem, shown by check-env and the PR manager
+  setupInstructions: string[];
+  // Check the credentials against the tracker's API
+  checkAccess(): Promise<void>;
+  // Issue ID from user input (an ID or issue URL), or null if it isn't one
+  parseIssueInput(input: string): string | null;
+  // Issue ID a pull request refers to (in its branch name or body), or null
+  findIssueIdForPR(pr: { branchName: string; body: string | null }):
+    | string
+    | null;
+  // Map the tracker's own priority onto the shared 0-4 scale
+  mapPriority(nativePriority: unknown): {
+    priority: number;
+    priorityLabel: string;
+  };
+  fetchIssue(issueId: string): Promise<TrackerIssue | null>;
+  fetchPriority(issueId: string): Promise<number | null>;
+  // Open issues not claimed by a human or a bot, highest priority first
+  listReadyIssues(): Promise<ReadyIssue[]>;
+}
+
+export const PRIORITY_LABELS = ["None", "Urgent", "High", "Medium", "Low"];
+
+// Sort ready issues by priority (no priority last), then by title
+export function sortReadyIssues(issues: ReadyIssue[]): ReadyIssue[] {
+  return issues.sort((a, b) => {
+    const priorityDiff = (a.priority || 999) - (b.priority || 999);
+    if (priorityDiff !== 0) return priorityDiff;
+    return a.title.localeCompare(b.title);
+  });
+}
+
+const silentLogger: TrackerLogger = { info: () => {}, warn: () => {} };
+
+export function createIssueTracker(
+  logger: TrackerLogger = silentLogger,
+  config: JulesWorkflowConfig = getConfig()
+): IssueTracker {
+  switch (config.integrations.issueTracker) {
+    case "linear":
+      return createLinearTracker(logger, config);
+    case "github":
+      return createGitHubIssuesTracker(logger, config);
+    case "jira":
+      return createJiraTracker(logger, config);
+    default:
+      throw new Error(
+        `Unknown integrations.issueTracker "${config.integrations.issueTracker}"`
+      );
+  }
+}
@@ -0,0 +1,171 @@
+// Convert Atlassian Document Format (Jira API v3 descriptions and comments)
+// to Markdown. Unknown nodes fall back to their text content.
+
+import { AdfNode } from "./jira-client";
+
+type Mark = NonNullable<AdfNode["marks"]>[number];
+
+function applyMark(text: string, mark: Mark): string {
+  switch (mark.type) {
+    case "strong":
+      return `**${text}**`;
+    case "em":
+      return `_${text}_`;
+    case "strike":
+      return `~~${text}~~`;
+    case "code":
+      return `\`${text}\``;
+    case "link":
+      return mark.attrs?.href ? `[${text}](${mark.attrs.href})` : text;
+    default:
+      return text;
+  }
+}
+
+function renderInline(nodes: AdfNode[] = []): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text": {
+          // Code goes innermost so other marks wrap the backticks
+          const marks = [...(node.marks || [])].sort(
+            (a, b) => Number(b.type === "code") - Number(a.type === "code")
+          );
+          return marks.reduce(applyMark, node.text || "");
+        }
+        case "hardBreak":
+          return "\n";
+        case "mention":
+          return node.attrs?.text || "@unknown";
+        case "emoji":
+          return node.attrs?.text || node.attrs?.shortName || "";
+        case "inlineCard":
+          return node.attrs?.url ? `<${node.attrs.url}>` : "";
+        case "status":
+          return `[${node.attrs?.text || ""}]`;
+        case "date":
+          return node.attrs?.timestamp
+            ? new Date(Number(node.attrs.timestamp))
+                .toISOString()
+                .substring(0, 10)
+            : "";
+        default:
+          return renderInline(node.content);
+      }
+    })
+    .join("");
+}
+
+function indent(text: string, prefix: string): string {
+  return text
+    .split("\n")
+    .map((line, index) =>
+      index === 0 ? line : line ? `${" ".repeat(prefix.length)}${line}` : line
+    )
+    .join("\n");
+}
+
+function renderList(node: AdfNode, ordered: boolean): string {
+  const start = ordered ? node.attrs?.order || 1 : 1;
+  return (node.content || [])
+    .map((item, index) => {
+      const prefix = ordered ? `${start + index}. ` : "- ";
+      // Keep nested lists tight against their item
+      const body = (item.content || [])
+        .map(renderBlock)
+        .filter((block) => block !== "")
+        .join("\n");
+      return `${prefix}${indent(body.trim(), prefix)}`;
+    })
+    .join("\n");
+}
+
+function renderTable(node: AdfNode): string {
+  const rows = (node.content || []).map((row) =>
+    (row.content || []).map((cell) =>
+      renderBlocks(cell.content)
+        .trim()
+        .replace(/\n+/g, " ")
+        .replace(/\|/g, "\\|")
+    )
+  );
+  if (rows.length === 0) return "";
+
+  const width = Math.max(...rows.map((row) => row.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] || "").join(
+      " | "
+    )} |`;
+  return [
+    line(rows[0]),
+    line(Array(width).fill("---")),
+    ...rows.slice(1).map(line),
+  ].join("\n");
+}
+
+function renderBlock(node: AdfNode): string {
+  switch (node.type) {
+    case "paragraph":
+      return renderInline(node.content);
+    case "heading":
+      return `${"#".repeat(node.attrs?.level || 1)} ${renderInline(
+        node.content
+      )}`;
+    case "bulletList":
+      return renderList(node, false);
+    case "orderedList":
+      return renderList(node, true);
+    case "taskList":
+      return (node.content || [])
+        .map(
+          (item) =>
+            `- [${item.attrs?.state === "DONE" ? "x" : " "}] ${renderInline(
+              item.content
+            )}`
+        )
+        .join("\n");
+    case "codeBlock":
+      return `\`\`\`${node.attrs?.language || ""}\n${renderInline(
+        node.content
+      )}\n\`\`\``;
+    case "blockquote":
+    case "panel":
+      return renderBlocks(node.content)
+        .split("\n")
+        .map((line) => (line ? `> ${line}` : ">"))
+        .join("\n");
+    case "rule":
+      return "---";
+    case "table":
+      return renderTable(node);
+    case "mediaSingle":
+    case "mediaGroup":
+      return "_(attachment)_";
+    case "expand":
+    case "nestedExpand":
+      return [
+        node.attrs?.title ? `**${node.attrs.title}**` : "",
+        renderBlocks(node.content),
+      ]
+        .filter(Boolean)
+        .join("\n\n");
+    default:
+      return node.content ? renderBlocks(node.content) : renderInline([node]);
+  }
+}
+
+function renderBlocks(nodes: AdfNode[] = []): string {
+  return nodes
+    .map(renderBlock)
+    .filter((block) => block !== "")
+    .join("\n\n");
+}
+
+export function adfToMarkdown(
+  document: AdfNode | string | null | undefined
+): string {
+  if (!document) return "";
+  // Jira Data Center (API v2) and some fields still return plain text
+  if (typeof document === "string") return document;
+  return renderBlocks(document.content).trim();
+}
@@ -0,0 +1,206 @@
+import { getConfig, JulesWorkflowConfig } from "./config-loader";
+
+export interface JiraClientOptions {
+  baseUrl: string | null;
+  // Jira Cloud signs in with email + API token (REST API v3). A token
+  // without an email is sent as a Data Center personal access token, using
+  // API v2. Neither is needed for a server without auth, e.g. a local mock.
+  email: string | null;
+  token: string | null;
+}
+
+// Atlassian Document Format node (descriptions and comments in API v3; v2
+// returns them as wiki markup strings)
+export interface AdfNode {
+  type: string;
+  text?: string;
+  attrs?: Record<string, any>;
+  marks?: Array<{ type: string; attrs?: Record<string, any> }>;
+  content?: AdfNode[];
+}
+
+export interface JiraIssueRef {
+  key: string;
+  fields: {
+    summary: string;
+    status?: { name: string };
+  };
+}
+
+export interface JiraIssue {
+  key: string;
+  fields: {
+    summary: string;
+    description?: AdfNode | string | null;
+    status?: { name: string; statusCategory?: { key: string } };
+    priority?: { name: string } | null;
+    assignee?: { displayName: string; emailAddress?: string } | null;
+    project?: { key: string; name: string };
+    labels?: string[];
+    parent?: JiraIssueRef & {
+      fields: JiraIssueRef["fields"] & {
+        description?: AdfNode | string | null;
+      };
+    };
+    subtasks?: JiraIssueRef[];
+    issuelinks?: Array<{
+      type: { inward: string; outward: string };
+      inwardIssue?: JiraIssueRef;
+      outwardIssue?: JiraIssueRef;
+    }>;
+    fixVersions?: Array<{ name: string; releaseDate?: string }>;
+  };
+}
+
+export interface JiraComment {
+  author?: { displayName: string } | null;
+  body: AdfNode | string | null;
+  created: string;
+}
+
+export interface JiraRemoteLink {
+  object: { url: string; title?: string };
+}
+
+export interface JiraClient {
+  options: JiraClientOptions;
+  request<T>(path: string): Promise<T>;
+  getIssue(key: string, fields: string[]): Promise<JiraIssue>;
+  listComments(key: string): Promise<JiraComment[]>;
+  listRemoteLinks(key: string): Promise<JiraRemoteLink[]>;
+  searchIssues(
+    jql: string,
+    fields: string[],
+    maxResults: number
+  ): Promise<JiraIssue[]>;
+  getMyself(): Promise<{ displayName: string }>;
+}
+
+export function resolveJiraClientOptions(
+  config: JulesWorkflowConfig = getConfig()
+): JiraClientOptions {
+  const baseUrl = process.env.JIRA_BASE_URL || config.integrations.jira.baseUrl;
+  return {
+    baseUrl: baseUrl ? baseUrl.replace(/\/+$/, "") : null,
+    email: process.env.JIRA_EMAIL || null,
+    token: process.env.JIRA_API_TOKEN || null,
+  };
+}
+
+export function createJiraClient(
+  options: JiraClientOptions = resolveJiraClientOptions()
+): JiraClient {
+  // Data Center has no /rest/api/3; Cloud and unauthenticated servers use it
+  const isDataCenter = !!options.token && !options.email;
+  const api = isDataCenter ? "/rest/api/2" : "/rest/api/3";
+
+  async function request<T>(path: string): Promise<T> {
+    if (!options.baseUrl) {
+      throw new Error("Jira base URL is not configured");
+    }
+    const headers: Record<string, string> = {
+      Accept: "application/json",
+      "User-Agent": "google-jules-workflow",
+    };
+    if (options.token) {
+      headers.Authorization = options.email
+        ? `Basic ${Buffer.from(`${options.email}:${options.token}`).toString(
+            "base64"
+          )}`
+        : `Bearer ${options.token}`;
+    }
+
+    const response = await fetch(`${options.baseUrl}${path}`, { headers });
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new Error(
+        `Jira API GET ${path} failed with ${response.status}: ${
+          text || response.statusText
+        }`
+      );
+    }
+    return (await response.json()) as T;
+  }
+
+  return {
+    options,
+    request,
+
+    getIssue(key, fields) {
+      return request<JiraIssue>(
+        `${api}/issue/${encodeURIComponent(key)}?fields=${fields.join(",")}`
+      );
+    },
+
+    // All comments, one page of 100 at a time
+    async listComments(key) {
+      const comments: JiraComment[] = [];
+      let startAt = 0;
+      while (true) {
+        const page = await request<{
+          comments: JiraComment[];
+          total: number;
+        }>(
+          `${api}/issue/${encodeURIComponent(
+            key
+          )}/comment?startAt=${startAt}&maxResults=100`
+        );
+        comments.push(...page.comments);
+        startAt += page.comments.length;
+        if (page.comments.length === 0 || startAt >= page.total) {
+          return comments;
+        }
+      }
+    },
+
+    listRemoteLinks(key) {
+      return request<JiraRemoteLink[]>(
+        `${api}/issue/${encodeURIComponent(key)}/remotelink`
+      );
+    },
+
+    // Follow nextPageToken (Cloud) or startAt (Data Center) until
+    // maxResults issues are collected
+    async searchIssues(jql, fields, maxResults) {
+      const issues: JiraIssue[] = [];
+
+      if (isDataCenter) {
+        while (issues.length < maxResults) {
+          const params = new URLSearchParams({
+            jql,
+            fields: fields.join(","),
+            startAt: String(issues.length),
+            maxResults: String(Math.min(100, maxResults - issues.length)),
+          });
+          const page = await request<{ issues: JiraIssue[]; total: number }>(
+            `${api}/search?${params}`
+          );
+          issues.push(...page.issues);
+          if (page.issues.length === 0 || issues.length >= page.total) break;
+        }
+        return issues.slice(0, maxResults);
+      }
+
+      let nextPageToken: string | undefined;
+      do {
+        const params = new URLSearchParams({
+          jql,
+          fields: fields.join(","),
+          maxResults: String(Math.min(100, maxResults - issues.length)),
+        });
+        if (nextPageToken) params.set("nextPageToken", nextPageToken);
+        const page = await request<{
+          issues: JiraIssue[];
+          nextPageToken?: string;
+        }>(`/rest/api/3/search/jql?${params}`);
+        issues.push(...page.issues);
+        nextPageToken = page.nextPageToken;
+      } while (nextPageToken && issues.length < maxResults);
+      return issues.slice(0, maxResults);
+    },
+
+    getMyself() {
+      return request<{ displayName: string }>(`${api}/myself`);
+    },
+  };
+}
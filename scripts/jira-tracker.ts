@@ -0,0 +1,309 @@
+import { JulesWorkflowConfig } from "./config-loader";
+import { getGitHubClient, getRepoFromGitRemote } from "./github-client";
+import {
+  IssueTracker,
+  LinkedIssue,
+  PRIORITY_LABELS,
+  ReadyIssue,
+  sortReadyIssues,
+  TrackerIssue,
+  TrackerLogger,
+} from "./issue-tracker";
+import { adfToMarkdown } from "./jira-adf";
+import { createJiraClient, JiraClient, JiraIssueRef } from "./jira-client";
+
+const JIRA_URL_PATTERN =
+  /^(?:https?:\/\/)?\S+?\/browse\/([A-Za-z][A-Za-z0-9_]*-\d+)(?:[/?#]\S*)?$/;
+const JIRA_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]*-\d+$/;
+// An uppercase key set off by delimiters ("feature/PROJ-123-login"), so
+// ordinary branches such as "fix-login-2" don't read as issue keys
+const JIRA_BRANCH_KEY_PATTERN =
+  /(?:^|[^A-Za-z0-9])([A-Z][A-Z0-9_]+-\d+)(?![A-Za-z0-9])/;
+
+const ISSUE_FIELDS = [
+  "summary",
+  "description",
+  "status",
+  "priority",
+  "assignee",
+  "project",
+  "labels",
+  "parent",
+  "subtasks",
+  "issuelinks",
+  "fixVersions",
+];
+const READY_ISSUE_FIELDS = [
+  "summary",
+  "status",
+  "priority",
+  "assignee",
+  "project",
+  "labels",
+];
+
+// Jira priority names mapped onto the shared scale, checked in order
+const PRIORITY_NAME_PATTERNS: Array<[RegExp, number]> = [
+  [/highest|blocker|critical|urgent/i, 1],
+  [/high|major/i, 2],
+  [/medium|normal/i, 3],
+  [/low|minor|trivial/i, 4],
+];
+
+// Open PRs in the current repo whose branch names the issue key
+async function findBranchPRs(
+  keys: string[]
+): Promise<Array<{ key: string; url: string; title: string }>> {
+  const { owner, repo } = getRepoFromGitRemote();
+  const { items: prs } = await getGitHubClient().listPullRequests(owner, repo);
+  return keys.flatMap((key) => {
+    const keyPattern = new RegExp(`(?:^|[^A-Za-z0-9])${key}(?!\\d)`, "i");
+    return prs
+      .filter((pr) => keyPattern.test(pr.head.ref))
+      .map((pr) => ({ key, url: pr.html_url, title: pr.title }));
+  });
+}
+
+export function createJiraTracker(
+  logger: TrackerLogger,
+  config: JulesWorkflowConfig
+): IssueTracker {
+  let client: JiraClient | null = null;
+  const getClient = () => {
+    if (!client) {
+      client = createJiraClient();
+    }
+    return client;
+  };
+
+  const toLinkedIssue = (issue: JiraIssueRef): LinkedIssue => ({
+    id: issue.key,
+    title: issue.fields.summary,
+    state: issue.fields.status?.name || "Unknown",
+    url: `${getClient().options.baseUrl}/browse/${issue.key}`,
+  });
+
+  const tracker: IssueTracker = {
+    name: "Jira",
+
+    getSetupProblem() {
+      // No token is fine for servers without auth, such as a local mock
+      const { baseUrl, email, token } = getClient().options;
+      if (!baseUrl) {
+        return "Jira base URL not set (integrations.jira.baseUrl or JIRA_BASE_URL)";
+      }
+      return email && !token
+        ? "JIRA_EMAIL is set but JIRA_API_TOKEN is not"
+        : null;
+    },
+
+    setupInstructions: [
+      "Set integrations.jira.baseUrl in your config (or export JIRA_BASE_URL), e.g. https://acme.atlassian.net",
+      "Create an API token at: https://id.atlassian.com/manage-profile/security/api-tokens",
+      "Add it to your environment: export JIRA_EMAIL='you@example.com' JIRA_API_TOKEN='your_token'",
+    ],
+
+    async checkAccess() {
+      await getClient().getMyself();
+    },
+
+    parseIssueInput(input) {
+      const urlMatch = input.match(JIRA_URL_PATTERN);
+      if (urlMatch) return urlMatch[1].toUpperCase();
+      return JIRA_KEY_PATTERN.test(input) ? input.toUpperCase() : null;
+    },
+
+    // With integrations.jira.projectKeys set, only those projects' keys
+    // count, in any case ("feature/proj-123")
+    findIssueIdForPR({ branchName }) {
+      const { projectKeys } = config.integrations.jira;
+      const pattern =
+        projectKeys.length > 0
+          ? new RegExp(
+              `(?:^|[^A-Za-z0-9])((?:${projectKeys
+                .map((key) => key.replace(/[^A-Za-z0-9_]/g, ""))
+                .join("|")})-\\d+)(?![A-Za-z0-9])`,
+              "i"
+            )
+          : JIRA_BRANCH_KEY_PATTERN;
+      const match = branchName.match(pattern);
+      return match ? match[1].toUpperCase() : null;
+    },
+
+    mapPriority(nativePriority) {
+      const name = typeof nativePriority === "string" ? nativePriority : "";
+      const match = PRIORITY_NAME_PATTERNS.find(([pattern]) =>
+        pattern.test(name)
+      );
+      const priority = match ? match[1] : 0;
+      return {
+        priority,
+        // Keep Jira's own name ("Blocker", "Major") when there is one
+        priorityLabel: name || PRIORITY_LABELS[priority],
+      };
+    },
+
+    async fetchIssue(issueId) {
+      const setupProblem = tracker.getSetupProblem();
+      if (setupProblem) {
+        logger.warn(setupProblem);
+        return null;
+      }
+
+      try {
+        const jira = getClient();
+        const issue = await jira.getIssue(issueId, ISSUE_FIELDS);
+        const { fields } = issue;
+
+        logger.info(`✅ Found Jira issue: ${fields.summary}`);
+
+        const comments = await jira.listComments(issue.key);
+        const fixVersion = fields.fixVersions?.[0];
+
+        const issueInfo: TrackerIssue = {
+          tracker: tracker.name,
+          id: issue.key,
+          title: fields.summary,
+          description: adfToMarkdown(fields.description) || undefined,
+          url: `${jira.options.baseUrl}/browse/${issue.key}`,
+          state: fields.status?.name || "Unknown",
+          ...tracker.mapPriority(fields.priority?.name),
+          assignee: fields.assignee
+            ? {
+                name: fields.assignee.displayName,
+                email: fields.assignee.emailAddress || "",
+              }
+            : null,
+          team: fields.project?.name || "Unknown",
+          labels: fields.labels || [],
+          comments: comments.map((comment) => ({
+            body: adfToMarkdown(comment.body),
+            user: { name: comment.author?.displayName || "Unknown User" },
+            createdAt: new Date(comment.created),
+          })),
+          attachments: [],
+          parent: null,
+          subIssues: (fields.subtasks || []).map(toLinkedIssue),
+          relations: (fields.issuelinks || []).flatMap((link) => {
+            const other = link.outwardIssue || link.inwardIssue;
+            if (!other) return [];
+            const name = link.outwardIssue
+              ? link.type.outward
+              : link.type.inward;
+            const type = /blocked by/i.test(name)
+              ? ("blocked by" as const)
+              : /blocks/i.test(name)
+              ? ("blocks" as const)
+              : ("related" as const);
+            return [{ ...toLinkedIssue(other), type }];
+          }),
+          project: null,
+          cycle: null,
+          milestone: fixVersion
+            ? { name: fixVersion.name, targetDate: fixVersion.releaseDate }
+            : null,
+        };
+
+        // The parent field doesn't carry the description, which often holds
+        // the acceptance criteria
+        if (fields.parent) {
+          try {
+            const parent = await jira.getIssue(fields.parent.key, [
+              "summary",
+              "status",
+              "description",
+            ]);
+            issueInfo.parent = {
+              ...toLinkedIssue(parent),
+              description:
+                adfToMarkdown(parent.fields.description) || undefined,
+            };
+          } catch (error) {
+            issueInfo.parent = toLinkedIssue(fields.parent);
+            logger.warn(`Could not fetch Jira parent issue: ${error}`);
+          }
+        }
+
+        // Linked PRs: GitHub remote links, then branches named after the key
+        try {
+          const remoteLinks = await jira.listRemoteLinks(issue.key);
+          issueInfo.attachments = remoteLinks.map((link) => ({
+            url: link.object.url,
+            title: link.object.title,
+          }));
+          const branchPRs = await findBranchPRs([issue.key]);
+          issueInfo.attachments.push(
+            ...branchPRs.map((pr) => ({ url: pr.url, title: pr.title }))
+          );
+        } catch (error) {
+          logger.warn(`Could not look up PRs for ${issue.key}: ${error}`);
+        }
+
+        return issueInfo;
+      } catch (error) {
+        logger.warn(`Could not fetch Jira issue ${issueId}: ${error}`);
+        return null;
+      }
+    },
+
+    async fetchPriority(issueId) {
+      const issue = await getClient().getIssue(issueId, ["priority"]);
+      return tracker.mapPriority(issue.fields.priority?.name).priority;
+    },
+
+    async listReadyIssues() {
+      const { readyIssuesJql, maxReadyIssues } = config.integrations.jira;
+      const issues = await getClient().searchIssues(
+        readyIssuesJql,
+        READY_ISSUE_FIELDS,
+        maxReadyIssues
+      );
+
+      let linkedKeys = new Set<string>();
+      try {
+        const branchPRs = await findBranchPRs(issues.map((issue) => issue.key));
+        linkedKeys = new Set(branchPRs.map((pr) => pr.key));
+      } catch (error) {
+        logger.warn(`Could not check GitHub PRs for Jira issues: ${error}`);
+      }
+
+      const botUsers = config.filtering.botUsers;
+      const readyIssues: ReadyIssue[] = [];
+
+      for (const issue of issues) {
+        const { fields } = issue;
+
+        // Skip issues with a human label
+        const labels = fields.labels || [];
+        if (labels.some((label) => label.toLowerCase().includes("human"))) {
+          continue;
+        }
+
+        // Check if assignee is a bot (if configured to filter bots)
+        const assignee = fields.assignee?.displayName.toLowerCase();
+        if (
+          config.filtering.enableDeduplication &&
+          assignee &&
+          botUsers.some((bot) => assignee.includes(bot.toLowerCase()))
+        ) {
+          continue;
+        }
+
+        readyIssues.push({
+          id: issue.key,
+          title: fields.summary,
+          ...tracker.mapPriority(fields.priority?.name),
+          team: fields.project?.name || "Unknown",
+          state: fields.status?.name || "Unknown",
+          hasHumanLabel: false,
+          url: `${getClient().options.baseUrl}/browse/${issue.key}`,
+          hasLinkedPR: linkedKeys.has(issue.key),
+        });
+      }
+
+      return sortReadyIssues(readyIssues);
+    },
+  };
+
+  return tracker;
+}
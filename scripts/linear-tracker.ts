@@ -0,0 +1,336 @@
+import { Issue, LinearClient } from "@linear/sdk";
+import { JulesWorkflowConfig } from "./config-loader";
+import {
+  IssueTracker,
+  LinkedIssue,
+  PRIORITY_LABELS,
+  ReadyIssue,
+  sortReadyIssues,
+  TrackerIssue,
+  TrackerLogger,
+} from "./issue-tracker";
+
+const LINEAR_URL_PATTERN =
+  /^(?:https?:\/\/)?linear\.app\/[^/\s]+\/issue\/([A-Za-z][A-Za-z0-9]*-\d+)(?:[/?#]\S*)?$/;
+const LINEAR_ID_PATTERN = /^[A-Za-z][A-Za-z0-9]*-\d+$/;
+const LINEAR_BRANCH_ID_PATTERN = /([A-Z]{2,10}-\d+)/;
+
+async function toLinkedIssue(issue: Issue): Promise<LinkedIssue> {
+  const state = await issue.state;
+  return {
+    id: issue.identifier,
+    title: issue.title,
+    state: state?.name || "Unknown",
+    url: issue.url,
+  };
+}
+
+async function fetchRelatedIssues(
+  issue: Issue,
+  issueInfo: TrackerIssue
+): Promise<void> {
+  const [parent, children, relations, inverseRelations] = await Promise.all([
+    issue.parent,
+    issue.children(),
+    issue.relations(),
+    issue.inverseRelations(),
+  ]);
+
+  if (parent) {
+    issueInfo.parent = {
+      ...(await toLinkedIssue(parent)),
+      description: parent.description,
+    };
+  }
+  issueInfo.subIssues = await Promise.all(children.nodes.map(toLinkedIssue));
+
+  // Outgoing relations point at relatedIssue, incoming ones at issue
+  const relationTypes = { blocks: "blocks", related: "related" } as const;
+  const inverseRelationTypes = {
+    blocks: "blocked by",
+    related: "related",
+  } as const;
+  const linked = await Promise.all([
+    ...relations.nodes.map(async (relation) => {
+      const type =
+        relationTypes[relation.type as keyof typeof relationTypes];
+      const other = type && (await relation.relatedIssue);
+      return other ? { ...(await toLinkedIssue(other)), type } : null;
+    }),
+    ...inverseRelations.nodes.map(async (relation) => {
+      const type =
+        inverseRelationTypes[
+          relation.type as keyof typeof inverseRelationTypes
+        ];
+      const other = type && (await relation.issue);
+      return other ? { ...(await toLinkedIssue(other)), type } : null;
+    }),
+  ]);
+
+  const seen = new Set<string>();
+  issueInfo.relations = linked.filter((relation) => {
+    if (!relation) return false;
+    const key = `${relation.type}:${relation.id}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }) as TrackerIssue["relations"];
+}
+
+export function createLinearTracker(
+  logger: TrackerLogger,
+  config: JulesWorkflowConfig
+): IssueTracker {
+  let client: LinearClient | null = null;
+  const getClient = () => {
+    if (!client) {
+      client = new LinearClient({ apiKey: process.env.LINEAR_API_KEY });
+    }
+    return client;
+  };
+
+  const tracker: IssueTracker = {
+    name: "Linear",
+
+    getSetupProblem() {
+      return process.env.LINEAR_API_KEY
+        ? null
+        : "LINEAR_API_KEY not found in environment variables";
+    },
+
+    setupInstructions: [
+      "Get your Linear API key from: https://linear.app/settings/api",
+      "Add it to your environment: export LINEAR_API_KEY='your_api_key_here'",
+      "Or create a .env file in your project with: LINEAR_API_KEY=your_api_key_here",
+    ],
+
+    async checkAccess() {
+      await getClient().viewer;
+    },
+
+    parseIssueInput(input) {
+      const urlMatch = input.match(LINEAR_URL_PATTERN);
+      if (urlMatch) return urlMatch[1].toUpperCase();
+      return LINEAR_ID_PATTERN.test(input) ? input.toUpperCase() : null;
+    },
+
+    // Linear links PRs through attachments, so only the branch name counts
+    findIssueIdForPR({ branchName }) {
+      const match = branchName.match(LINEAR_BRANCH_ID_PATTERN);
+      return match ? match[1] : null;
+    },
+
+    // Linear already uses the shared scale
+    mapPriority(nativePriority) {
+      const priority =
+        typeof nativePriority === "number" && PRIORITY_LABELS[nativePriority]
+          ? nativePriority
+          : 0;
+      return { priority, priorityLabel: PRIORITY_LABELS[priority] };
+    },
+
+    async fetchIssue(issueId) {
+      const setupProblem = tracker.getSetupProblem();
+      if (setupProblem) {
+        logger.warn(setupProblem);
+        return null;
+      }
+
+      try {
+        const issue = await getClient().issue(issueId);
+
+        if (!issue) {
+          return null;
+        }
+
+        logger.info(`✅ Found Linear issue: ${issue.title}`);
+
+        // Get issue comments
+        const comments = await issue.comments();
+        const commentsList = await comments.nodes;
+
+        // Get additional metadata
+        const state = await issue.state;
+        const assignee = await issue.assignee;
+        const team = await issue.team;
+        const labels = await issue.labels();
+
+        const issueInfo: TrackerIssue = {
+          tracker: tracker.name,
+          id: issueId,
+          title: issue.title,
+          description: issue.description,
+          branchName: issue.branchName,
+          url: issue.url,
+          state: state?.name || "Unknown",
+          priority: issue.priority || 0,
+          priorityLabel: issue.priorityLabel || "None",
+          assignee: assignee
+            ? {
+                name: assignee.displayName || assignee.name || "Unknown User",
+                email: assignee.email,
+              }
+            : null,
+          team: team?.name || "Unknown",
+          labels: labels.nodes.map((label) => label.name),
+          comments: commentsList.map((comment) => ({
+            body: comment.body,
+            user: {
+              name:
+                (comment.user as any)?.displayName ||
+                (comment.user as any)?.name ||
+                "Unknown User",
+            },
+            createdAt: comment.createdAt,
+          })),
+          attachments: [],
+          parent: null,
+          subIssues: [],
+          relations: [],
+          project: null,
+          cycle: null,
+          milestone: null,
+        };
+
+        // Project, cycle and milestone (project specs often live in the
+        // project description)
+        try {
+          const [project, cycle, milestone] = await Promise.all([
+            issue.project,
+            issue.cycle,
+            issue.projectMilestone,
+          ]);
+          if (project) {
+            issueInfo.project = {
+              name: project.name,
+              // The summary line plus the full project document
+              description:
+                [project.description, project.content]
+                  .filter(Boolean)
+                  .join("\n\n") || undefined,
+              targetDate: project.targetDate,
+              url: project.url,
+            };
+          }
+          if (cycle) {
+            issueInfo.cycle = {
+              name: cycle.name || `Cycle ${cycle.number}`,
+              startsAt: new Date(cycle.startsAt).toISOString().substring(0, 10),
+              endsAt: new Date(cycle.endsAt).toISOString().substring(0, 10),
+            };
+          }
+          if (milestone) {
+            issueInfo.milestone = {
+              name: milestone.name,
+              targetDate: milestone.targetDate,
+            };
+          }
+        } catch (error) {
+          logger.warn(`Could not fetch Linear project details: ${error}`);
+        }
+
+        // Parent, sub-issues and relations: acceptance criteria often live
+        // on the parent of a decomposed issue
+        if (config.integrations.linear.includeRelatedIssues) {
+          try {
+            await fetchRelatedIssues(issue, issueInfo);
+          } catch (error) {
+            logger.warn(`Could not fetch related Linear issues: ${error}`);
+          }
+        }
+
+        // Get attachments if available
+        try {
+          const attachments = await issue.attachments();
+          const attachmentsList = await attachments.nodes;
+          issueInfo.attachments = attachmentsList.map((attachment) => ({
+            url: attachment.url,
+            title: attachment.title,
+          }));
+        } catch (error) {
+          // Ignore attachment errors
+        }
+
+        return issueInfo;
+      } catch (error) {
+        logger.warn(`Could not fetch Linear issue ${issueId}: ${error}`);
+        return null;
+      }
+    },
+
+    async fetchPriority(issueId) {
+      const issue = await getClient().issue(issueId);
+      return issue ? tracker.mapPriority(issue.priority).priority : null;
+    },
+
+    async listReadyIssues() {
+      // Get all issues that are not done
+      const issues = await getClient().issues({
+        filter: {
+          state: { type: { nin: ["completed", "canceled"] } },
+        },
+        includeArchived: false,
+        first: 100,
+      });
+
+      const readyIssues: ReadyIssue[] = [];
+      const botUsers = config.filtering.botUsers;
+
+      for (const issue of issues.nodes) {
+        try {
+          // Skip issues with a human label
+          const labels = await issue.labels();
+          const hasHumanLabel = labels.nodes.some((label) =>
+            label.name.toLowerCase().includes("human")
+          );
+          if (hasHumanLabel) continue;
+
+          // Check if assignee is a bot (if configured to filter bots)
+          if (config.filtering.enableDeduplication) {
+            const assignee = await issue.assignee;
+            if (
+              assignee &&
+              botUsers.some(
+                (bot) =>
+                  assignee.name.toLowerCase().includes(bot.toLowerCase()) ||
+                  assignee.email?.toLowerCase().includes(bot.toLowerCase())
+              )
+            ) {
+              continue;
+            }
+          }
+
+          // Check if there's a PR attachment
+          const attachments = await issue.attachments();
+          const hasLinkedPR = attachments.nodes.some(
+            (attachment) =>
+              attachment.url?.includes("github.com") &&
+              attachment.url?.includes("/pull/")
+          );
+
+          const team = await issue.team;
+          readyIssues.push({
+            id: issue.identifier,
+            title: issue.title,
+            priority: issue.priority || 0,
+            priorityLabel: issue.priorityLabel || "None",
+            team: team?.name || "Unknown",
+            state: (await issue.state)?.name || "Unknown",
+            hasHumanLabel,
+            url: issue.url,
+            branchName: issue.branchName,
+            hasLinkedPR,
+          });
+        } catch (error) {
+          logger.warn(
+            `Could not process Linear issue ${issue.identifier}: ${error}`
+          );
+        }
+      }
+
+      return sortReadyIssues(readyIssues);
+    },
+  };
+
+  return tracker;
+}
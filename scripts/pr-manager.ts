@@ -1,6 +1,4 @@
 #!/usr/bin/env tsx
-import { execSync } from "child_process";
-import { LinearClient } from "@linear/sdk";
 import { createInterface } from "readline";
 import dotenv from "dotenv";
 import clipboardy from "clipboardy";
@@ -12,6 +10,12 @@ import {
   isConfigFound,
   showConfigWarning,
 } from "./config-loader";
+import {
+  findLastCommitByAuthor,
+  getGitHubClient,
+  getRepoFromGitRemote,
+} from "./github-client";
+import { createIssueTracker, ReadyIssue } from "./issue-tracker";
 
 // Load environment variables from .env file
 dotenv.config();
@@ -56,6 +60,8 @@ const logWarning = (message: string) => {
   }
 };
 
+const issueTracker = createIssueTracker({ info: logInfo, warn: logWarning });
+
 // Handle both npm script usage and direct CLI usage
 function normalizeArgs(args: string[]): string[] {
   // If called directly (e.g., jules-pr-manager), process all args
@@ -111,42 +117,18 @@ interface PRInfo {
   branch: string;
   lastCommitAuthor: string;
   lastCommitDate: string;
+  lastAgentCommitDate?: string;
   url: string;
-  linearIssueId?: string;
-  linearUrgency?: number;
+  issueId?: string;
+  issuePriority?: number;
   copilotReviewed: boolean;
   commitsAfterCopilotReview: number;
   isDraft?: boolean;
 }
 
-interface LinearIssue {
-  id: string;
-  priority: number;
-  priorityLabel: string;
-  title: string;
-}
-
-interface LinearIssueInfo {
-  id: string;
-  title: string;
-  priority: number;
-  priorityLabel: string;
-  team: string;
-  state: string;
-  hasHumanLabel: boolean;
-  url: string;
-}
-
 async function getCurrentRepoInfo(): Promise<{ owner: string; repo: string }> {
   try {
-    const remoteUrl = execSync("git config --get remote.origin.url", {
-      encoding: "utf-8",
-    }).trim();
-    const match = remoteUrl.match(/github\.com[:/]([^/]+)\/(.+?)(?:\.git)?$/);
-    if (!match) {
-      throw new Error("Could not parse GitHub repository from remote URL");
-    }
-    return { owner: match[1], repo: match[2] };
+    return getRepoFromGitRemote();
   } catch (error) {
     logError("Failed to get repository information from git remote");
     throw error;
@@ -156,17 +138,12 @@ async function getCurrentRepoInfo(): Promise<{ owner: string; repo: string }> {
 async function getAllOpenPRs(): Promise<PRInfo[]> {
   try {
     const { owner, repo } = await getCurrentRepoInfo();
+    const github = getGitHubClient();
 
     // Get all open PRs with detailed information (including drafts)
-    const prsOutput = execSync(
-      `gh api "repos/${owner}/${repo}/pulls?state=open&per_page=100" --jq '.[] | {number, title, head_ref: .head.ref, updated_at, html_url, draft}'`,
-      { encoding: "utf-8" }
-    );
-
-    const prs = prsOutput
-      .trim()
-      .split("\n")
-      .map((line) => JSON.parse(line));
+    const { items: prs } = await github.listPullRequests(owner, repo, {
+      state: "open",
+    });
     const prInfos: PRInfo[] = [];
 
     for (const pr of prs) {
@@ -177,11 +154,19 @@ async function getAllOpenPRs(): Promise<PRInfo[]> {
         }
 
         // Get the last commit for this PR
-        const lastCommitOutput = execSync(
-          `gh api repos/${owner}/${repo}/pulls/${pr.number}/commits --jq '.[-1] | {author: .commit.author.name, date: .commit.author.date}'`,
-          { encoding: "utf-8" }
+        const { items: commits } = await github.listPullRequestCommits(
+          owner,
+          repo,
+          pr.number
+        );
+        const lastCommit = {
+          author: commits[commits.length - 1]?.commit.author?.name || "",
+          date: commits[commits.length - 1]?.commit.author?.date || "",
+        };
+        const lastAgentCommit = findLastCommitByAuthor(
+          commits,
+          config.workflow.codingAgentAuthor
         );
-        const lastCommit = JSON.parse(lastCommitOutput);
 
         // Apply date filtering if configured
         if (config.prManager.filtering.maxDaysOld) {
@@ -194,36 +179,33 @@ async function getAllOpenPRs(): Promise<PRInfo[]> {
         }
 
         // Check if copilot has reviewed this PR
-        const reviewsOutput = execSync(
-          `gh api repos/${owner}/${repo}/pulls/${pr.number}/reviews --jq '.[] | select(.user.login == "copilot-pull-request-reviewer[bot]") | {submitted_at: .submitted_at}'`,
-          { encoding: "utf-8" }
+        const { items: reviews } = await github.listReviews(
+          owner,
+          repo,
+          pr.number
+        );
+        const copilotReviews = reviews.filter(
+          (review) =>
+            review.user?.login === "copilot-pull-request-reviewer[bot]"
         );
-
-        const copilotReviews = reviewsOutput.trim()
-          ? reviewsOutput
-              .trim()
-              .split("\n")
-              .map((line) => JSON.parse(line))
-          : [];
         const copilotReviewed = copilotReviews.length > 0;
 
         // Count commits after the latest copilot review
         let commitsAfterCopilotReview = 0;
         if (copilotReviewed) {
           const latestCopilotReview = copilotReviews[copilotReviews.length - 1];
-          const commitsAfterOutput = execSync(
-            `gh api repos/${owner}/${repo}/pulls/${pr.number}/commits --jq '.[] | select(.commit.author.date > "${latestCopilotReview.submitted_at}") | .sha'`,
-            { encoding: "utf-8" }
-          );
-          commitsAfterCopilotReview = commitsAfterOutput.trim()
-            ? commitsAfterOutput.trim().split("\n").length
-            : 0;
+          commitsAfterCopilotReview = commits.filter(
+            (commit) =>
+              (commit.commit.author?.date || "") >
+              (latestCopilotReview.submitted_at || "")
+          ).length;
         }
 
-        // Extract Linear issue ID from branch name
-        const branchName = pr.head_ref || "unknown";
-        const linearMatch = branchName.match(/([A-Z]{2,10}-\d+)/);
-        const linearIssueId = linearMatch ? linearMatch[1] : undefined;
+        // Extract the tracker issue ID from the branch name or PR body
+        const branchName = pr.head.ref || "unknown";
+        const issueId =
+          issueTracker.findIssueIdForPR({ branchName, body: pr.body }) ||
+          undefined;
 
         prInfos.push({
           number: pr.number,
@@ -231,9 +213,10 @@ async function getAllOpenPRs(): Promise<PRInfo[]> {
           branch: branchName,
           lastCommitAuthor: lastCommit.author,
           lastCommitDate: lastCommit.date,
+          lastAgentCommitDate: lastAgentCommit?.commit.committer?.date,
           url: pr.html_url,
-          linearIssueId,
-          linearUrgency: 0, // Will be populated later
+          issueId,
+          issuePriority: 0, // Will be populated later
           copilotReviewed,
           commitsAfterCopilotReview,
           isDraft: pr.draft,
@@ -251,32 +234,33 @@ async function getAllOpenPRs(): Promise<PRInfo[]> {
   }
 }
 
-async function enrichWithLinearData(prs: PRInfo[]): Promise<PRInfo[]> {
-  const linearApiKey = process.env.LINEAR_API_KEY;
-  if (!linearApiKey) {
-    logWarning("LINEAR_API_KEY not found - skipping Linear urgency data");
+async function enrichWithIssueData(prs: PRInfo[]): Promise<PRInfo[]> {
+  const setupProblem = issueTracker.getSetupProblem();
+  if (setupProblem) {
+    logWarning(
+      `${setupProblem} - skipping ${issueTracker.name} urgency data`
+    );
     return prs;
   }
 
-  const linear = new LinearClient({ apiKey: linearApiKey });
-  const prsWithLinear = prs.filter((pr) => pr.linearIssueId);
+  const prsWithIssue = prs.filter((pr) => pr.issueId);
 
-  if (prsWithLinear.length > 0) {
+  if (prsWithIssue.length > 0) {
     logInfo(
-      `🔗 Enriching ${prsWithLinear.length} PRs with Linear urgency data...`
+      `🔗 Enriching ${prsWithIssue.length} PRs with ${issueTracker.name} urgency data...`
     );
   }
 
   for (const pr of prs) {
-    if (pr.linearIssueId) {
+    if (pr.issueId) {
       try {
-        const issue = await linear.issue(pr.linearIssueId);
-        if (issue) {
-          pr.linearUrgency = issue.priority || 0;
+        const priority = await issueTracker.fetchPriority(pr.issueId);
+        if (priority !== null) {
+          pr.issuePriority = priority;
         }
       } catch (error) {
         logWarning(
-          `Could not fetch Linear issue ${pr.linearIssueId}: ${error}`
+          `Could not fetch ${issueTracker.name} issue ${pr.issueId}: ${error}`
         );
       }
     }
@@ -289,16 +273,9 @@ async function assignCopilotReviewer(prNumber: number): Promise<boolean> {
   try {
     const { owner, repo } = await getCurrentRepoInfo();
 
-    // Use proper JSON payload format for GitHub API
-    execSync(
-      `gh api repos/${owner}/${repo}/pulls/${prNumber}/requested_reviewers --method POST --input -`,
-      {
-        encoding: "utf-8",
-        input: JSON.stringify({
-          reviewers: ["copilot-pull-request-reviewer[bot]"],
-        }),
-      }
-    );
+    await getGitHubClient().requestReviewers(owner, repo, prNumber, [
+      "copilot-pull-request-reviewer[bot]",
+    ]);
 
     return true;
   } catch (error) {
@@ -309,9 +286,9 @@ async function assignCopilotReviewer(prNumber: number): Promise<boolean> {
 
 function sortPRsByUrgencyAndDate(prs: PRInfo[]): PRInfo[] {
   return prs.sort((a, b) => {
-    // Sort by Linear urgency first (lower number = higher urgency in Linear: 1=Urgent, 2=High, 3=Medium, 4=Low)
-    const aUrgency = a.linearUrgency || 999; // No priority goes to end
-    const bUrgency = b.linearUrgency || 999; // No priority goes to end
+    // Sort by issue urgency first (lower number = higher urgency: 1=Urgent, 2=High, 3=Medium, 4=Low)
+    const aUrgency = a.issuePriority || 999; // No priority goes to end
+    const bUrgency = b.issuePriority || 999; // No priority goes to end
     const urgencyDiff = aUrgency - bUrgency;
     if (urgencyDiff !== 0) return urgencyDiff;
 
@@ -348,18 +325,18 @@ function formatPRList(prs: PRInfo[], title: string): string {
   let output = `## ${title}\n\n`;
 
   limitedPRs.forEach((pr, index) => {
-    const priorityEmoji = getPriorityEmoji(pr.linearUrgency || 0);
+    const priorityEmoji = getPriorityEmoji(pr.issuePriority || 0);
 
     // Basic PR info
     output += `${index + 1}. ${priorityEmoji} **PR #${pr.number}**: ${
       pr.title
     }`;
 
-    // Linear issue link (if configured and available)
-    if (config.prManager.listFormatting.showLinearLinks && pr.linearIssueId) {
-      output += ` (${pr.linearIssueId} - Priority: ${pr.linearUrgency || 0})`;
-    } else if (!pr.linearIssueId) {
-      output += " (No Linear Issue)";
+    // Tracker issue link (if configured and available)
+    if (config.prManager.listFormatting.showLinearLinks && pr.issueId) {
+      output += ` (${pr.issueId} - Priority: ${pr.issuePriority || 0})`;
+    } else if (!pr.issueId) {
+      output += ` (No ${issueTracker.name} Issue)`;
     }
 
     // Draft status
@@ -412,14 +389,14 @@ async function findPRsNeedingCopilotReview(): Promise<PRInfo[]> {
   logInfo("⏳ This may take a while...");
 
   const allPRs = await getAllOpenPRs();
-  const enrichedPRs = await enrichWithLinearData(allPRs);
+  const enrichedPRs = await enrichWithIssueData(allPRs);
 
   // Filter PRs where:
   // 1. Last commit is by Jules AND
   // 2. Either copilot has never reviewed OR there are commits after copilot's last review
   const needingReview = enrichedPRs.filter(
     (pr) =>
-      pr.lastCommitAuthor.includes("google-labs-jules") &&
+      pr.lastCommitAuthor.includes(config.workflow.codingAgentAuthor) &&
       (!pr.copilotReviewed || pr.commitsAfterCopilotReview > 0)
   );
 
@@ -430,7 +407,7 @@ async function findPRsNeedingJulesUpdate(): Promise<PRInfo[]> {
   logInfo("🔍 Finding PRs where copilot reviewed but no commits since...");
 
   const allPRs = await getAllOpenPRs();
-  const enrichedPRs = await enrichWithLinearData(allPRs);
+  const enrichedPRs = await enrichWithIssueData(allPRs);
 
   // Filter PRs where copilot has reviewed but no commits since
   const needingUpdate = enrichedPRs.filter(
@@ -467,13 +444,25 @@ async function assignCopilotToJulesPRs(): Promise<void> {
   );
 }
 
-async function runJulesForPR(prNumber: number): Promise<void> {
+// onlyNewFeedback limits the extraction to feedback after the agent's last
+// commit: sinceDate when that is already known, otherwise the extractor
+// looks the commit up itself
+async function runJulesForPR(
+  prNumber: number,
+  onlyNewFeedback = false,
+  sinceDate?: string
+): Promise<void> {
   try {
     logInfo(`🤖 Running Jules extraction for PR #${prNumber}...`);
 
     // Use the shared utility to execute pr-workflow.ts
     const prWorkflowPath = join(__dirname, "pr-workflow.ts");
     const args = [prNumber.toString(), "--jules"];
+    if (onlyNewFeedback) {
+      args.push(
+        ...(sinceDate ? ["--since", sinceDate] : ["--since-last-commit"])
+      );
+    }
 
     try {
       // Execute and capture output
@@ -487,9 +476,9 @@ async function runJulesForPR(prNumber: number): Promise<void> {
 
       // Try to provide helpful guidance
       logInfo("💡 This might be due to:");
-      logInfo("   • Missing GitHub PR or Linear issue");
+      logInfo(`   • Missing GitHub PR or ${issueTracker.name} issue`);
       logInfo("   • Network connectivity issues");
-      logInfo("   • Missing environment variables (LINEAR_API_KEY)");
+      logInfo(`   • Missing ${issueTracker.name} credentials`);
       logInfo("   • Invalid PR number or permissions");
     }
   } catch (error) {
@@ -523,18 +512,25 @@ async function interactivePRReview(prs: PRInfo[]): Promise<void> {
 
   for (let i = 0; i < prs.length; i++) {
     const pr = prs[i];
-    const priorityEmoji = getPriorityEmoji(pr.linearUrgency || 0);
+    const priorityEmoji = getPriorityEmoji(pr.issuePriority || 0);
 
     console.log(`\n${getCustomSeparator()}`);
     logInfo(`📋 PR ${i + 1}/${prs.length}: ${priorityEmoji} #${pr.number}`);
     logInfo(`Title: ${pr.title}`);
     logInfo(`Branch: ${pr.branch}`);
-    logInfo(`Linear: ${pr.linearIssueId || "None"}`);
+    logInfo(`${issueTracker.name}: ${pr.issueId || "None"}`);
+    if (pr.lastAgentCommitDate) {
+      logInfo(
+        `Last agent commit: ${new Date(pr.lastAgentCommitDate).toLocaleString()}`
+      );
+    }
     logInfo(`URL: ${pr.url}`);
     console.log(`${getCustomSeparator()}`);
 
     const action = await promptUser(
-      "\nActions: (j)ules mode, (s)kip, (q)uit",
+      pr.lastAgentCommitDate
+        ? "\nActions: (j)ules mode, (n)ew feedback since last agent commit, (s)kip, (q)uit"
+        : "\nActions: (j)ules mode, (s)kip, (q)uit",
       config.prManager.interactive.defaultAction
     );
 
@@ -546,6 +542,18 @@ async function interactivePRReview(prs: PRInfo[]): Promise<void> {
           await promptUser("\nPress Enter to continue to next PR", "");
         }
         break;
+      case "n":
+      case "new":
+        if (!pr.lastAgentCommitDate) {
+          logWarning(
+            `No agent commit found for PR #${pr.number} while listing - the extraction will look for one`
+          );
+        }
+        await runJulesForPR(pr.number, true, pr.lastAgentCommitDate);
+        if (!config.prManager.interactive.autoContinue) {
+          await promptUser("\nPress Enter to continue to next PR", "");
+        }
+        break;
       case "s":
       case "skip":
         logInfo("Skipping this PR.");
@@ -589,23 +597,22 @@ async function copyToClipboardWithDebug(content: string): Promise<void> {
   }
 }
 
-async function runJulesForLinearIssue(issueId: string): Promise<void> {
+async function runJulesForIssue(issueId: string): Promise<void> {
   try {
-    // Check for required environment variables first
-    if (!process.env.LINEAR_API_KEY) {
-      logError(`❌ Missing LINEAR_API_KEY environment variable`);
+    // Check the tracker is set up first
+    const setupProblem = issueTracker.getSetupProblem();
+    if (setupProblem) {
+      logError(`❌ ${setupProblem}`);
       logInfo("💡 To fix this:");
-      logInfo(
-        "   1. Get your Linear API key from: https://linear.app/settings/api"
+      issueTracker.setupInstructions.forEach((step, index) =>
+        logInfo(`   ${index + 1}. ${step}`)
       );
-      logInfo("   2. Add it to your environment:");
-      logInfo("      export LINEAR_API_KEY='your_api_key_here'");
-      logInfo("   3. Or create a .env file in your project with:");
-      logInfo("      LINEAR_API_KEY=your_api_key_here");
       return;
     }
 
-    logInfo(`🤖 Running Jules extraction for Linear issue ${issueId}...`);
+    logInfo(
+      `🤖 Running Jules extraction for ${issueTracker.name} issue ${issueId}...`
+    );
 
     // Use the shared utility to execute pr-workflow.ts
     const prWorkflowPath = join(__dirname, "pr-workflow.ts");
@@ -618,20 +625,25 @@ async function runJulesForLinearIssue(issueId: string): Promise<void> {
       // If we get here without error, the extraction succeeded
       // The pr-workflow.ts script handles its own success messaging and clipboard operations
     } catch (extractError) {
-      logError(`Extraction failed for Linear issue ${issueId}:`);
+      logError(
+        `Extraction failed for ${issueTracker.name} issue ${issueId}:`
+      );
 
       // Parse common error messages and provide helpful guidance
       const errorMessage = extractError.toString();
 
-      if (errorMessage.includes("LINEAR_API_KEY not found")) {
-        logInfo("💡 LINEAR_API_KEY is missing or invalid");
+      if (errorMessage.includes("not found in environment variables")) {
+        logInfo(`💡 ${issueTracker.name} credentials are missing or invalid`);
         logInfo("   • Check your environment variables");
-        logInfo("   • Verify the API key is correct");
-        logInfo("   • Get a new key from: https://linear.app/settings/api");
+        issueTracker.setupInstructions.forEach((step) =>
+          logInfo(`   • ${step}`)
+        );
       } else if (errorMessage.includes("Could not find data")) {
-        logInfo(`💡 Linear issue ${issueId} not found or inaccessible`);
-        logInfo("   • Verify the Linear issue ID is correct");
-        logInfo("   • Check you have access to this Linear workspace");
+        logInfo(
+          `💡 ${issueTracker.name} issue ${issueId} not found or inaccessible`
+        );
+        logInfo(`   • Verify the ${issueTracker.name} issue ID is correct`);
+        logInfo(`   • Check you have access to this ${issueTracker.name} workspace`);
         logInfo("   • Ensure the issue exists and isn't archived");
       } else if (
         errorMessage.includes("Network") ||
@@ -639,7 +651,7 @@ async function runJulesForLinearIssue(issueId: string): Promise<void> {
       ) {
         logInfo("💡 Network connectivity issue");
         logInfo("   • Check your internet connection");
-        logInfo("   • Linear API might be temporarily unavailable");
+        logInfo(`   • ${issueTracker.name} API might be temporarily unavailable`);
       } else {
         // Show the actual error for debugging
         console.error("Raw error:", extractError);
@@ -649,128 +661,62 @@ async function runJulesForLinearIssue(issueId: string): Promise<void> {
       }
     }
   } catch (error) {
-    logError(`Failed to run extraction for Linear issue ${issueId}: ${error}`);
+    logError(
+      `Failed to run extraction for ${issueTracker.name} issue ${issueId}: ${error}`
+    );
   }
 }
 
-async function findLinearIssuesWithoutPRs(): Promise<LinearIssueInfo[]> {
-  const linearApiKey = process.env.LINEAR_API_KEY;
-  if (!linearApiKey) {
-    logError("LINEAR_API_KEY not found - cannot fetch Linear issues");
+async function findIssuesWithoutPRs(): Promise<ReadyIssue[]> {
+  const setupProblem = issueTracker.getSetupProblem();
+  if (setupProblem) {
+    logError(`${setupProblem} - cannot fetch ${issueTracker.name} issues`);
     return [];
   }
 
-  const linear = new LinearClient({ apiKey: linearApiKey });
-
   try {
     logInfo(
-      "🔍 Finding Linear issues without PRs (excluding Human tagged issues)..."
+      `🔍 Finding ${issueTracker.name} issues without PRs (excluding Human tagged issues)...`
     );
 
     if (config.display.showProcessingTime) {
       logInfo("⏳ This may take a while...");
     }
 
-    // Get all issues that are not done and don't have human label
-    const issues = await linear.issues({
-      filter: {
-        state: { type: { nin: ["completed", "canceled"] } },
-      },
-      includeArchived: false,
-      first: 100,
-    });
-
-    const issuesWithoutPRs: LinearIssueInfo[] = [];
-    const botUsers = getBotUsers();
-
-    for (const issue of issues.nodes) {
-      try {
-        // Check if issue has labels
-        const labels = await issue.labels();
-        const hasHumanLabel = labels.nodes.some((label) =>
-          label.name.toLowerCase().includes("human")
-        );
-
-        // Skip if has human label
-        if (hasHumanLabel) continue;
-
-        // Check if assignee is a bot (if configured to filter bots)
-        if (config.filtering.enableDeduplication) {
-          const assignee = await issue.assignee;
-          if (
-            assignee &&
-            botUsers.some(
-              (bot) =>
-                assignee.name.toLowerCase().includes(bot.toLowerCase()) ||
-                assignee.email?.toLowerCase().includes(bot.toLowerCase())
-            )
-          ) {
-            continue;
-          }
-        }
-
-        // Check if there's a branch or PR attachment
-        const attachments = await issue.attachments();
-        const hasPRAttachment = attachments.nodes.some(
-          (attachment) =>
-            attachment.url?.includes("github.com") &&
-            attachment.url?.includes("/pull/")
-        );
-
-        // Check if there's a branch name that might have a PR
-        let hasPR = hasPRAttachment;
-        if (issue.branchName && !hasPR) {
-          try {
-            const { owner, repo } = await getCurrentRepoInfo();
-            const prCheck = execSync(
-              `gh pr list --head ${issue.branchName} --repo ${owner}/${repo} --json number`,
-              { encoding: "utf-8" }
-            );
-            const prs = JSON.parse(prCheck);
-            hasPR = prs.length > 0;
-          } catch {
-            // No PR found, which is what we want
-          }
+    const issues = await issueTracker.listReadyIssues();
+    const issuesWithoutPRs: ReadyIssue[] = [];
+
+    for (const issue of issues) {
+      // Check if there's a branch name that might have a PR
+      let hasPR = issue.hasLinkedPR;
+      if (issue.branchName && !hasPR) {
+        try {
+          const { owner, repo } = await getCurrentRepoInfo();
+          const { items: prs } = await getGitHubClient().listPullRequests(
+            owner,
+            repo,
+            { head: `${owner}:${issue.branchName}` }
+          );
+          hasPR = prs.length > 0;
+        } catch {
+          // No PR found, which is what we want
         }
+      }
 
-        if (!hasPR) {
-          const team = await issue.team;
-          issuesWithoutPRs.push({
-            id: issue.identifier,
-            title: issue.title,
-            priority: issue.priority || 0,
-            priorityLabel: issue.priorityLabel || "None",
-            team: team?.name || "Unknown",
-            state: (await issue.state)?.name || "Unknown",
-            hasHumanLabel,
-            url: issue.url,
-          });
-        }
-      } catch (error) {
-        logWarning(
-          `Could not process Linear issue ${issue.identifier}: ${error}`
-        );
+      if (!hasPR) {
+        issuesWithoutPRs.push(issue);
       }
     }
 
-    return issuesWithoutPRs.sort((a, b) => {
-      // Sort by priority first (lower number = higher priority in Linear: 1=Urgent, 2=High, 3=Medium, 4=Low)
-      const aPriority = a.priority || 999; // No priority goes to end
-      const bPriority = b.priority || 999; // No priority goes to end
-      const priorityDiff = aPriority - bPriority;
-      if (priorityDiff !== 0) return priorityDiff;
-
-      // Then alphabetically by title
-      return a.title.localeCompare(b.title);
-    });
+    return issuesWithoutPRs;
   } catch (error) {
-    logError(`Failed to fetch Linear issues: ${error}`);
+    logError(`Failed to fetch ${issueTracker.name} issues: ${error}`);
     return [];
   }
 }
 
-function formatLinearIssueList(
-  issues: LinearIssueInfo[],
+function formatIssueList(
+  issues: ReadyIssue[],
   title: string
 ): string {
   // Apply max items limit if configured
@@ -781,7 +727,7 @@ function formatLinearIssueList(
 
   if (limitedIssues.length === 0) {
     if (shouldShowEmptySections()) {
-      return `## ${title}\n\n✅ No Linear issues found matching criteria.\n\n`;
+      return `## ${title}\n\n✅ No ${issueTracker.name} issues found matching criteria.\n\n`;
     }
     return "";
   }
@@ -811,14 +757,14 @@ function formatLinearIssueList(
     config.prManager.listFormatting.maxItemsPerList > 0 &&
     issues.length > limitedIssues.length
   ) {
-    output += `_Showing ${limitedIssues.length} of ${issues.length} Linear issues (limited by configuration)_\n\n`;
+    output += `_Showing ${limitedIssues.length} of ${issues.length} ${issueTracker.name} issues (limited by configuration)_\n\n`;
   }
 
   return output;
 }
 
-async function interactiveLinearReview(
-  issues: LinearIssueInfo[]
+async function interactiveIssueReview(
+  issues: ReadyIssue[]
 ): Promise<void> {
   if (issues.length === 0) return;
 
@@ -830,13 +776,13 @@ async function interactiveLinearReview(
     return;
   }
 
-  logInfo(`\n🔄 Interactive Linear Issue Review Mode`);
+  logInfo(`\n🔄 Interactive ${issueTracker.name} Issue Review Mode`);
   logInfo(
-    `Found ${issues.length} Linear issue(s) ready for Jules to start working on.`
+    `Found ${issues.length} ${issueTracker.name} issue(s) ready for Jules to start working on.`
   );
 
   const response = await promptUser(
-    "\nWould you like to go through each Linear issue with Jules mode? (y/n)",
+    `\nWould you like to go through each ${issueTracker.name} issue with Jules mode? (y/n)`,
     "y"
   );
 
@@ -866,7 +812,7 @@ async function interactiveLinearReview(
     switch (action.toLowerCase()) {
       case "j":
       case "jules":
-        await runJulesForLinearIssue(issue.id);
+        await runJulesForIssue(issue.id);
         if (!config.prManager.interactive.autoContinue) {
           await promptUser("\nPress Enter to continue to next issue", "");
         }
@@ -885,49 +831,53 @@ async function interactiveLinearReview(
     }
   }
 
-  logSuccess("🎉 Completed interactive Linear issue review!");
+  logSuccess(`🎉 Completed interactive ${issueTracker.name} issue review!`);
 }
 
 async function checkEnvironmentSetup(): Promise<void> {
   console.log("🔍 **Environment Setup Check**\n");
 
-  // Check GitHub CLI
-  try {
-    execSync("gh --version", { stdio: "ignore" });
-    logSuccess("✅ GitHub CLI (gh) is installed and available");
-  } catch {
-    logError("❌ GitHub CLI (gh) is not installed or not in PATH");
-    logInfo("   Install from: https://cli.github.com/");
-  }
+  // Check GitHub token
+  const github = getGitHubClient();
+  if (github.options.token) {
+    logSuccess(`✅ GitHub token found (API: ${github.options.baseUrl})`);
 
-  // Check GitHub authentication
-  try {
-    execSync("gh auth status", { stdio: "ignore" });
-    logSuccess("✅ GitHub CLI is authenticated");
-  } catch {
-    logError("❌ GitHub CLI is not authenticated");
-    logInfo("   Run: gh auth login");
+    // Test GitHub API access
+    try {
+      await github.request("/user");
+      logSuccess("✅ GitHub token is valid and accessible");
+    } catch (error) {
+      logError("❌ GitHub token is invalid or inaccessible");
+      logInfo("   • Check the token has repo access");
+    }
+  } else {
+    logError("❌ No GitHub token found");
+    logInfo(
+      `   • Set one of: ${config.integrations.github.tokenEnvVars.join(", ")}`
+    );
+    logInfo("   • Or authenticate the GitHub CLI: gh auth login");
   }
 
-  // Check Linear API key
-  if (process.env.LINEAR_API_KEY) {
-    logSuccess("✅ LINEAR_API_KEY environment variable is set");
+  // Check the issue tracker
+  const setupProblem = issueTracker.getSetupProblem();
+  if (!setupProblem) {
+    logSuccess(`✅ ${issueTracker.name} credentials are set`);
 
-    // Test Linear API access
+    // Test tracker API access
     try {
-      const linear = new LinearClient({ apiKey: process.env.LINEAR_API_KEY });
-      await linear.viewer;
-      logSuccess("✅ Linear API key is valid and accessible");
+      await issueTracker.checkAccess();
+      logSuccess(`✅ ${issueTracker.name} API is valid and accessible`);
     } catch (error) {
-      logError("❌ Linear API key is invalid or inaccessible");
-      logInfo("   • Check your API key is correct");
-      logInfo("   • Get a new key from: https://linear.app/settings/api");
+      logError(`❌ ${issueTracker.name} credentials are invalid or inaccessible`);
+      issueTracker.setupInstructions.forEach((step) =>
+        logInfo(`   • ${step}`)
+      );
     }
   } else {
-    logError("❌ LINEAR_API_KEY environment variable is not set");
-    logInfo("   1. Get your API key from: https://linear.app/settings/api");
-    logInfo("   2. Add to environment: export LINEAR_API_KEY='your_key'");
-    logInfo("   3. Or create .env file with: LINEAR_API_KEY=your_key");
+    logError(`❌ ${setupProblem}`);
+    issueTracker.setupInstructions.forEach((step, index) =>
+      logInfo(`   ${index + 1}. ${step}`)
+    );
   }
 
   // Check Gemini API key (optional)
@@ -937,7 +887,9 @@ async function checkEnvironmentSetup(): Promise<void> {
     );
   } else {
     logWarning("⚠️  GEMINI_API_KEY not set (AI summaries won't work)");
-    logInfo("   This is optional - only needed for --summary flag");
+    logInfo(
+      '   This is optional - only needed for --summary and priority.classifier.mode "ai"'
+    );
   }
 
   // Check git repository
@@ -956,7 +908,7 @@ async function checkEnvironmentSetup(): Promise<void> {
 
   console.log("\n💡 **Usage**: If all checks pass, you can run commands like:");
   console.log("   • jules-pr summary");
-  console.log("   • jules-pr list-linear-issues");
+  console.log("   • jules-pr list-issues");
   console.log("   • jules-pr GRE-123 --jules");
 }
 
@@ -987,9 +939,10 @@ USAGE:
 COMMANDS:
   list-needing-review     List PRs where Jules committed but copilot hasn't reviewed the latest changes
   list-needing-update     List PRs where copilot reviewed but no commits since (with interactive mode)
-  list-linear-issues      List Linear issues without PRs that are ready for Jules to start (with interactive mode)
+  list-issues             List ${issueTracker.name} issues without PRs that are ready for Jules to start (with interactive mode)
+  list-linear-issues      Same as 'list-issues' (backwards compatibility)
   assign-copilot         Assign copilot to review PRs where Jules committed
-  check-env              Check environment setup (GitHub CLI, Linear API, etc.)
+  check-env              Check environment setup (GitHub token, ${issueTracker.name} API, etc.)
   summary                Show summary of both categories
 
 OPTIONS:
@@ -998,24 +951,24 @@ OPTIONS:
 EXAMPLES:
   npm run pr-manager list-needing-review
   npm run pr-manager list-needing-update
-  npm run pr-manager list-linear-issues
+  npm run pr-manager list-issues
   npm run pr-manager assign-copilot
   npm run pr-manager check-env
   npm run pr-manager summary
 
 INTERACTIVE MODE:
-  The 'list-needing-update' and 'list-linear-issues' commands offer interactive modes 
+  The 'list-needing-update' and 'list-issues' commands offer interactive modes 
   to go through each item and run Jules mode for easy copying.
 
 SORTING:
   Results are sorted by:
-  1. Linear issue urgency (highest first)
+  1. ${issueTracker.name} issue urgency (highest first)
   2. Last updated date (most recent first) for PRs
-  3. Alphabetically by title for Linear issues
+  3. Alphabetically by title for ${issueTracker.name} issues
 
 REQUIREMENTS:
-  • GitHub CLI (gh) installed and authenticated
-  • LINEAR_API_KEY environment variable (required for Linear features)
+  • GitHub token (GITHUB_TOKEN/GH_TOKEN, or an authenticated GitHub CLI)
+  • ${issueTracker.name} credentials (integrations.issueTracker; required for issue features)
       `);
       closeReadlineInterface();
       process.exit(0);
@@ -1049,16 +1002,17 @@ REQUIREMENTS:
         break;
       }
 
+      case "list-issues":
       case "list-linear-issues": {
-        const issues = await findLinearIssuesWithoutPRs();
-        const output = formatLinearIssueList(
+        const issues = await findIssuesWithoutPRs();
+        const output = formatIssueList(
           issues,
-          "Linear Issues Ready for Jules to Start"
+          `${issueTracker.name} Issues Ready for Jules to Start`
         );
         console.log(output);
 
         // Offer interactive mode
-        await interactiveLinearReview(issues);
+        await interactiveIssueReview(issues);
         closeReadlineInterface();
         break;
       }
@@ -1080,7 +1034,7 @@ REQUIREMENTS:
         const [needingReview, needingUpdate, linearIssues] = await Promise.all([
           findPRsNeedingCopilotReview(),
           findPRsNeedingJulesUpdate(),
-          findLinearIssuesWithoutPRs(),
+          findIssuesWithoutPRs(),
         ]);
 
         console.log("# 🤖 Jules & Copilot Workflow Summary\n");
@@ -1097,9 +1051,9 @@ REQUIREMENTS:
           )
         );
         console.log(
-          formatLinearIssueList(
+          formatIssueList(
             linearIssues,
-            "🆕 Linear Issues Ready for Jules to Start"
+            `🆕 ${issueTracker.name} Issues Ready for Jules to Start`
           )
         );
 
@@ -1117,7 +1071,7 @@ REQUIREMENTS:
 
         if (linearIssues.length > 0) {
           console.log(
-            `💡 **Next Step**: Run \`npm run pr-manager list-linear-issues\` for interactive review of ${linearIssues.length} Linear issue(s)\n`
+            `💡 **Next Step**: Run \`npm run pr-manager list-issues\` for interactive review of ${linearIssues.length} ${issueTracker.name} issue(s)\n`
           );
         }
 
@@ -1,11 +1,14 @@
 #!/usr/bin/env tsx
-import { execSync } from "child_process";
-import { writeFileSync } from "fs";
-import { join, dirname } from "path";
+import { execFileSync, execSync } from "child_process";
+import { mkdirSync, writeFileSync } from "fs";
+import { join, dirname, resolve as resolvePath } from "path";
 import { findTsx, executeTsFile } from "./tsx-utils";
 import clipboardy from "clipboardy";
 import { createInterface } from "readline";
 import { loadConfig, isConfigFound, showConfigWarning } from "./config-loader";
+import { getGitHubClient, getRepoFromGitRemote } from "./github-client";
+import { createIssueTracker } from "./issue-tracker";
+import { parseInput } from "./input-parser";
 
 // Load configuration
 const config = loadConfig();
@@ -47,11 +50,20 @@ const logWarning = (message: string) => {
   }
 };
 
+const issueTracker = createIssueTracker({ info: logInfo, warn: logWarning });
+
 interface WorkflowOptions {
   auto?: boolean;
   save?: string;
   jules?: boolean;
   summary?: boolean;
+  sinceLastCommit?: boolean;
+  since?: string;
+  format?: "markdown" | "json";
+  exportPatch?: string;
+  allPRs?: boolean;
+  prs?: string;
+  saveDir?: string;
 }
 
 // Handle both npm script usage and direct CLI usage
@@ -70,6 +82,7 @@ function normalizeArgs(args: string[]): string[] {
 const MANAGER_COMMANDS = [
   "list-needing-review",
   "list-needing-update",
+  "list-issues",
   "list-linear-issues",
   "assign-copilot",
   "manager",
@@ -77,6 +90,27 @@ const MANAGER_COMMANDS = [
   "check-env",
 ];
 
+// Options that take a value (e.g. --save review.md)
+const VALUE_OPTIONS = [
+  "--save",
+  "--save-dir",
+  "--format",
+  "--export-patch",
+  "--prs",
+  "--since",
+];
+
+// Arguments that name an input rather than a flag or an option value
+function getPositionalArgs(args: string[]): string[] {
+  return args.filter(
+    (arg, i) =>
+      !arg.startsWith("-") &&
+      !VALUE_OPTIONS.includes(args[i - 1]) &&
+      arg !== "auto" &&
+      arg !== "current"
+  );
+}
+
 // Check if this should be delegated to pr-manager
 function shouldDelegateToManager(args: string[]): boolean {
   return args.some((arg) => MANAGER_COMMANDS.includes(arg));
@@ -100,10 +134,10 @@ async function delegateToManager(args: string[]): Promise<void> {
     const tsxPath = findTsx();
     const scriptDir = require("path").dirname(__filename);
     const prManagerPath = join(scriptDir, "pr-manager.ts");
-    const command = `"${tsxPath}" "${prManagerPath}" ${managerArgs.join(" ")}`;
 
-    // Execute pr-manager.ts with the same stdout/stderr
-    execSync(command, {
+    // Execute pr-manager.ts with the same stdout/stderr (no shell, so
+    // arguments pass through as given)
+    execFileSync(tsxPath, [prManagerPath, ...managerArgs], {
       stdio: "inherit",
       cwd: process.cwd(),
     });
@@ -123,27 +157,29 @@ async function getCurrentBranchPR(): Promise<number | null> {
       logInfo(`Current branch: ${currentBranch}`);
     }
 
-    const prListOutput = execSync(
-      `gh pr list --head ${currentBranch} --json number`,
-      { encoding: "utf-8" }
+    const { owner, repo } = getRepoFromGitRemote();
+    const { items: prs } = await getGitHubClient().listPullRequests(
+      owner,
+      repo,
+      { head: `${owner}:${currentBranch}` }
     );
-
-    const prs = JSON.parse(prListOutput);
     return prs.length > 0 ? prs[0].number : null;
   } catch (error) {
     return null;
   }
 }
 
-async function getLinearIssueFromBranch(): Promise<string | null> {
+async function getIssueFromBranch(): Promise<string | null> {
   try {
     const currentBranch = execSync("git branch --show-current", {
       encoding: "utf-8",
     }).trim();
 
-    // Look for Linear issue pattern in branch name (e.g., feature/GRE-123-description)
-    const linearMatch = currentBranch.match(/([A-Z]{2,10}-\d+)/);
-    return linearMatch ? linearMatch[1] : null;
+    // Look for the tracker's issue ID in the branch name (e.g., feature/GRE-123-description)
+    return issueTracker.findIssueIdForPR({
+      branchName: currentBranch,
+      body: null,
+    });
   } catch (error) {
     return null;
   }
@@ -156,11 +192,11 @@ async function autoDetectInput(): Promise<string | null> {
   const preferLinear = config.workflow.autoDetectPreference === "linear";
 
   if (preferLinear) {
-    // Try Linear issue first (they usually contain more context)
-    const linearIssue = await getLinearIssueFromBranch();
-    if (linearIssue) {
-      logSuccess(`✅ Found Linear issue in branch: ${linearIssue}`);
-      return linearIssue;
+    // Try the tracker issue first (they usually contain more context)
+    const issueId = await getIssueFromBranch();
+    if (issueId) {
+      logSuccess(`✅ Found ${issueTracker.name} issue in branch: ${issueId}`);
+      return issueId;
     }
 
     // Fallback to PR
@@ -177,23 +213,29 @@ async function autoDetectInput(): Promise<string | null> {
       return currentPR.toString();
     }
 
-    // Fallback to Linear issue
-    const linearIssue = await getLinearIssueFromBranch();
-    if (linearIssue) {
-      logSuccess(`✅ Found Linear issue in branch: ${linearIssue}`);
-      return linearIssue;
+    // Fallback to the tracker issue
+    const issueId = await getIssueFromBranch();
+    if (issueId) {
+      logSuccess(`✅ Found ${issueTracker.name} issue in branch: ${issueId}`);
+      return issueId;
     }
   }
 
-  logError("❌ No PR or Linear issue found for current branch");
+  logError(`❌ No PR or ${issueTracker.name} issue found for current branch`);
   logInfo("💡 Create a PR first with: gh pr create");
   logInfo(
-    "💡 Or ensure your branch name contains a Linear issue ID (e.g., feature/GRE-123-description)"
+    `💡 Or ensure your branch name contains a ${issueTracker.name} issue ID`
   );
   return null;
 }
 
-async function runExtractPR(input: string, options: WorkflowOptions = {}) {
+// With interactive off the extractor can't prompt (e.g. to pick one of an
+// issue's linked PRs) and falls back to workflow.multiplePRs instead
+async function runExtractPR(
+  input: string,
+  options: WorkflowOptions = {},
+  interactive = true
+) {
   try {
     if (config.display.showProcessingTime) {
       const startTime = Date.now();
@@ -202,14 +244,24 @@ async function runExtractPR(input: string, options: WorkflowOptions = {}) {
       let args = [input];
       // Don't pass --jules to the extract script, we'll handle it here
       if (options.summary) args.push("--summary");
+      if (options.sinceLastCommit) args.push("--since-last-commit");
+      if (options.since) args.push("--since", options.since);
+      if (options.format === "json") args.push("--format", "json");
+      if (options.exportPatch)
+        args.push("--export-patch", options.exportPatch);
+      if (options.allPRs) args.push("--all-prs");
+      if (options.prs) args.push("--prs", options.prs);
       // Add flag to suppress clipboard output since we'll handle it here
       args.push("--no-clipboard-output");
 
       const extractScriptPath = join(__dirname, "extract-pr-discussion.ts");
-      const output = executeTsFile(extractScriptPath, args);
+      const output = executeTsFile(extractScriptPath, args, { interactive });
 
       if (options.save) {
-        const format = config.workflow.defaultSaveFormat || "md";
+        const format =
+          options.format === "json"
+            ? "json"
+            : config.workflow.defaultSaveFormat || "md";
         const filename = options.save.endsWith(`.${format}`)
           ? options.save
           : `${options.save}.${format}`;
@@ -229,13 +281,23 @@ async function runExtractPR(input: string, options: WorkflowOptions = {}) {
 
       let args = [input];
       if (options.summary) args.push("--summary");
+      if (options.sinceLastCommit) args.push("--since-last-commit");
+      if (options.since) args.push("--since", options.since);
+      if (options.format === "json") args.push("--format", "json");
+      if (options.exportPatch)
+        args.push("--export-patch", options.exportPatch);
+      if (options.allPRs) args.push("--all-prs");
+      if (options.prs) args.push("--prs", options.prs);
       args.push("--no-clipboard-output");
 
       const extractScriptPath = join(__dirname, "extract-pr-discussion.ts");
-      const output = executeTsFile(extractScriptPath, args);
+      const output = executeTsFile(extractScriptPath, args, { interactive });
 
       if (options.save) {
-        const format = config.workflow.defaultSaveFormat || "md";
+        const format =
+          options.format === "json"
+            ? "json"
+            : config.workflow.defaultSaveFormat || "md";
         const filename = options.save.endsWith(`.${format}`)
           ? options.save
           : `${options.save}.${format}`;
@@ -251,6 +313,105 @@ async function runExtractPR(input: string, options: WorkflowOptions = {}) {
   }
 }
 
+// File name (without extension) for an input's saved output, from
+// workflow.autoSave.fileNamePattern
+function getOutputFileName(input: string): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const parsedInput = parseInput(input, issueTracker);
+  // Issues are named after their tracker ("linear", "github")
+  const type =
+    parsedInput?.type === "issue" ? issueTracker.name.toLowerCase() : "pr";
+  const id =
+    parsedInput?.type === "issue"
+      ? // GitHub issue IDs look like "#45" or "owner/repo#45"
+        parsedInput.id.replace(/[^\w.-]+/g, "-").replace(/^-+/, "")
+      : parsedInput?.type === "pr"
+      ? // Keep PRs from other repos apart from same-numbered local ones
+        parsedInput.repo
+        ? `${parsedInput.repo}-${parsedInput.number}`
+        : String(parsedInput.number)
+      : input.replace(/[^\w.-]+/g, "-");
+
+  return config.workflow.autoSave.fileNamePattern
+    .replace("{type}", type)
+    .replace("{id}", id)
+    .replace("{timestamp}", timestamp);
+}
+
+// Extract several inputs one after another, save one file per input and
+// print a summary table. Failures don't stop the batch.
+async function runBatch(
+  inputs: string[],
+  options: WorkflowOptions
+): Promise<void> {
+  const saveDir = options.saveDir || config.workflow.autoSave.directory;
+  const format =
+    options.format === "json"
+      ? "json"
+      : config.workflow.defaultSaveFormat || "md";
+  mkdirSync(resolvePath(saveDir), { recursive: true });
+
+  if (options.jules || options.save) {
+    logWarning("--jules and --save are ignored in batch mode (use --save-dir)");
+  }
+  if (options.exportPatch) {
+    logWarning(
+      "--export-patch writes one patch per input next to its output in batch mode"
+    );
+  }
+
+  const results: Array<{ input: string; file?: string }> = [];
+  for (const [index, input] of inputs.entries()) {
+    logInfo(`\n📦 [${index + 1}/${inputs.length}] ${input}`);
+    try {
+      const fileName = getOutputFileName(input);
+      // Non-interactive so a prompt can't stall the rest of the batch
+      const output = await runExtractPR(
+        input,
+        {
+          ...options,
+          jules: false,
+          save: undefined,
+          exportPatch:
+            options.exportPatch &&
+            resolvePath(join(saveDir, `${fileName}.patch`)),
+        },
+        false
+      );
+      const file = join(saveDir, `${fileName}.${format}`);
+      writeFileSync(resolvePath(file), output);
+      logSuccess(`💾 Saved to: ${file}`);
+      results.push({ input, file });
+    } catch (error) {
+      // The extractor has already printed the reason on stderr
+      logError(`❌ ${input}: extraction failed`);
+      results.push({ input });
+    }
+  }
+
+  const succeeded = results.filter((result) => result.file).length;
+  const inputWidth = Math.max(
+    "Input".length,
+    ...results.map((result) => result.input.length)
+  );
+  console.log("\n" + "=".repeat(config.display.separatorWidth));
+  console.log(`📦 BATCH SUMMARY: ${succeeded}/${results.length} extracted`);
+  console.log("=".repeat(config.display.separatorWidth));
+  console.log(`${"Input".padEnd(inputWidth)}  Result     Output`);
+  results.forEach((result) => {
+    console.log(
+      `${result.input.padEnd(inputWidth)}  ${
+        result.file ? "✅ saved " : "❌ failed"
+      }  ${result.file || "see error above"}`
+    );
+  });
+  console.log("=".repeat(config.display.separatorWidth));
+
+  if (succeeded < results.length) {
+    process.exit(1);
+  }
+}
+
 async function julesMode(input: string, output: string): Promise<void> {
   try {
     // Check if this is a Linear issue with an existing branch/PR
@@ -314,23 +475,24 @@ async function julesMode(input: string, output: string): Promise<void> {
         "✅ Output copied to clipboard!";
       logSuccess(successMessage);
     } else {
-      // For Linear issues without branches, use configuration for Linear-only
-      const linearMatch = input.match(/([A-Z]{2,10}-\d+)/);
-      if (linearMatch) {
-        const linearId = linearMatch[1];
+      // For tracker issues without branches, use the issue-only configuration
+      // (recognized the same way as extraction inputs)
+      const parsedInput = parseInput(input, issueTracker);
+      if (parsedInput?.type === "issue") {
+        const issueId = parsedInput.id;
         const firstCopy = config.julesMode.linearOnlyFirstCopy;
 
         // Step 1: Copy based on configuration
         let clipboardContent = "";
         if (firstCopy === "linear_id") {
-          clipboardContent = linearId;
+          clipboardContent = issueId;
           logSuccess(
-            `📋 Step 1: Linear issue ID copied to clipboard: ${linearId}`
+            `📋 Step 1: ${issueTracker.name} issue ID copied to clipboard: ${issueId}`
           );
         } else if (firstCopy === "title") {
           // Would need additional logic to extract title
-          clipboardContent = linearId;
-          logSuccess(`📋 Step 1: Content copied to clipboard: ${linearId}`);
+          clipboardContent = issueId;
+          logSuccess(`📋 Step 1: Content copied to clipboard: ${issueId}`);
         }
 
         if (config.clipboard.enabled) {
@@ -345,7 +507,7 @@ async function julesMode(input: string, output: string): Promise<void> {
 
         const promptMessage =
           config.julesMode.prompts.firstCopyComplete ||
-          "✨ Press Enter to continue and copy the full Linear discussion...";
+          `✨ Press Enter to continue and copy the full ${issueTracker.name} discussion...`;
 
         await new Promise<void>((resolve) => {
           readline.question(promptMessage, () => {
@@ -413,6 +575,7 @@ async function main() {
 
 USAGE:
   jules-pr [PR_NUMBER|LINEAR_ID] [options]       Extract PR/issue discussion
+                                                 (PR/Linear URLs and owner/repo#123 work too)
   jules-pr <manager_command> [options]           PR workflow management
   jules-pr --help                                Show this help
 
@@ -420,21 +583,37 @@ USAGE:
   jules-pr                             Auto-detect current branch
   jules-pr 123                         Extract GitHub PR #123
   jules-pr GRE-456                     Extract Linear issue GRE-456
+  jules-pr issue:45                    Extract GitHub issue #45 (issueTracker: "github")
+  jules-pr acme/api#42                 Extract PR #42 from another repo (or paste a PR URL)
+  jules-pr https://linear.app/acme/issue/GRE-456
+                                       Extract a Linear issue from its URL
+  jules-pr 101 102 GRE-45 --save-dir out/
+                                       Batch: one file per input plus a summary table
   jules-pr auto --jules                Auto-detect with Jules mode
   jules-pr 123 --summary --save        Extract with AI summary and save
+  jules-pr 123 --since-last-commit     Only feedback since Jules' last commit
+  jules-pr 123 --export-patch fix.patch  Export reviewers' suggestions as a patch
+  jules-pr GRE-456 --all-prs           Combine every PR linked to the Linear issue
 
 🤖 **WORKFLOW MANAGEMENT:**
   jules-pr summary                     Show overview of PRs needing attention (default)
   jules-pr list-needing-review         PRs where Jules committed, need Copilot review
   jules-pr list-needing-update         PRs reviewed by Copilot, need Jules update
-  jules-pr list-linear-issues          Linear issues ready for Jules to start
+  jules-pr list-issues                 Tracker issues ready for Jules to start
   jules-pr assign-copilot              Auto-assign Copilot to Jules PRs
   jules-pr manager                     Same as 'summary' (backwards compatibility)
 
 📝 **OPTIONS:**
   --save <filename>     Save output to file (e.g., --save review.md)
+  --save-dir <dir>      Save each input to its own file (named by autoSave.fileNamePattern)
   --jules, -j          Jules mode: Two-step clipboard copying
   --summary, -s        Generate AI summary using Gemini
+  --since-last-commit  Only feedback posted after the coding agent's latest commit
+  --since <date>       Only feedback posted after an ISO 8601 date
+  --format <fmt>       Output format: markdown (default) or json
+  --export-patch <file> Write suggested changes to a patch file
+  --all-prs            Include every PR linked to a Linear issue
+  --prs <numbers>      Linked PRs to include, e.g. --prs 12,15
   --help, -h           Show this help
 
 🎯 **JULES MODE:**
@@ -466,19 +645,30 @@ USAGE:
     auto:
       args.includes("auto") ||
       args.includes("current") ||
-      args.length === 0 ||
-      (args.length === 1 &&
-        (args.includes("--jules") || args.includes("-j"))) ||
-      (args.length === 1 &&
-        (args.includes("--summary") || args.includes("-s"))) ||
-      (args.length === 2 &&
-        args.includes("--jules") &&
-        args.includes("--summary")),
+      // Only flags given (or nothing at all)
+      getPositionalArgs(args).length === 0,
     save: args.find((arg, i) => args[i - 1] === "--save"),
     jules: args.includes("--jules") || args.includes("-j"),
     summary: args.includes("--summary") || args.includes("-s"),
+    sinceLastCommit: args.includes("--since-last-commit"),
+    since: args.find((arg, i) => args[i - 1] === "--since"),
+    format:
+      args.find((arg, i) => args[i - 1] === "--format") === "json"
+        ? "json"
+        : "markdown",
+    exportPatch: args.find((arg, i) => args[i - 1] === "--export-patch"),
+    allPRs: args.includes("--all-prs"),
+    prs: args.find((arg, i) => args[i - 1] === "--prs"),
+    saveDir: args.find((arg, i) => args[i - 1] === "--save-dir"),
   };
 
+  // Several inputs (or --save-dir): extract each one to its own file
+  const inputs = getPositionalArgs(args);
+  if (inputs.length > 1 || (options.saveDir && inputs.length > 0)) {
+    await runBatch(inputs, options);
+    return;
+  }
+
   let input: string | null = null;
 
   // Auto-detect mode or fallback for jules/summary
@@ -489,10 +679,7 @@ USAGE:
     }
   } else {
     // Use provided input
-    input =
-      args.find(
-        (arg) => !arg.startsWith("--") && arg !== "auto" && arg !== "current"
-      ) || null;
+    input = getPositionalArgs(args)[0] || null;
     if (!input) {
       logError("Please provide a PR number or Linear issue ID");
       process.exit(1);
@@ -509,16 +696,14 @@ USAGE:
 
   // Auto-save if configured
   if (config.workflow.autoSave.enabled) {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const type = input.match(/^\d+$/) ? "pr" : "linear";
-    const id = input;
-    const pattern = config.workflow.autoSave.fileNamePattern
-      .replace("{type}", type)
-      .replace("{id}", id)
-      .replace("{timestamp}", timestamp);
+    const pattern = getOutputFileName(input);
 
     const autoSaveDir = config.workflow.autoSave.directory;
-    const autoSavePath = join(process.cwd(), autoSaveDir, `${pattern}.md`);
+    const autoSavePath = join(
+      process.cwd(),
+      autoSaveDir,
+      `${pattern}.${options.format === "json" ? "json" : "md"}`
+    );
 
     // Ensure directory exists
     const fs = require("fs");
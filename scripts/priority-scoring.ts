@@ -0,0 +1,164 @@
+// Score review feedback as HIGH / MEDIUM / LOW. Weighted keyword and regex
+// rules are matched on word boundaries and skipped when negated ("not
+// critical"); the review state and the author's role add their own weight.
+// Every point scored is recorded so the result can be explained.
+
+export type Priority = "HIGH" | "MEDIUM" | "LOW";
+
+export interface PriorityRule {
+  // A word or phrase (case-insensitive, whole words only) or a regex
+  pattern: string | RegExp;
+  priority: Priority;
+  weight: number;
+}
+
+export interface PrioritySignal {
+  priority: Priority;
+  weight: number;
+}
+
+export interface PriorityScoringOptions {
+  // Later rules with the same pattern replace earlier ones
+  rules: PriorityRule[];
+  // Keyed by review state, e.g. CHANGES_REQUESTED
+  reviewStates: Record<string, PrioritySignal>;
+  // Keyed by GitHub author association (OWNER, MEMBER, ...) or BOT
+  authorRoles: Record<string, PrioritySignal>;
+  negationWords: string[];
+  // Below this score the default priority is used
+  minScore: number;
+  defaultPriority: Priority;
+}
+
+export interface PriorityContext {
+  reviewState?: string;
+  authorRole?: string;
+}
+
+export interface PriorityScore {
+  priority: Priority;
+  scores: Record<Priority, number>;
+  // e.g. 'HIGH +3: "security"', 'ignored "critical" (negated by "not")'
+  reasons: string[];
+}
+
+// Most severe first, which also breaks ties
+const PRIORITIES: Priority[] = ["HIGH", "MEDIUM", "LOW"];
+
+// How far back a negation word may appear: "not a critical issue", but not
+// "doesn't handle the error"
+const NEGATION_WINDOW_WORDS = 2;
+
+// Strings match whole words, case-insensitively; regexes match as written
+export function toRegExp(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) {
+    return new RegExp(
+      pattern.source,
+      pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`
+    );
+  }
+  const escaped = pattern
+    .trim()
+    .replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\s+/g, "\\s+");
+  return new RegExp(`(?<!\\w)${escaped}(?!\\w)`, "gi");
+}
+
+// Rules with the same key replace each other
+export function getPatternKey(pattern: string | RegExp): string {
+  return pattern instanceof RegExp
+    ? pattern.toString()
+    : pattern.trim().toLowerCase();
+}
+
+// The negation word before a match in the same clause, if any
+function findNegation(
+  text: string,
+  index: number,
+  negationWords: string[]
+): string | null {
+  const clause = text.slice(0, index).split(/[.!?;:,\n]/).pop() || "";
+  if (/\bnon-\s*$/i.test(clause)) return "non-";
+
+  const words = clause.toLowerCase().match(/[\w']+/g) || [];
+  return (
+    words
+      .slice(-NEGATION_WINDOW_WORDS)
+      .find(
+        (word) => negationWords.includes(word) || word.endsWith("n't")
+      ) || null
+  );
+}
+
+export function scorePriority(
+  body: string,
+  context: PriorityContext,
+  options: PriorityScoringOptions
+): PriorityScore {
+  const text = body.replace(/[‘’]/g, "'");
+  const scores: Record<Priority, number> = { HIGH: 0, MEDIUM: 0, LOW: 0 };
+  const reasons: string[] = [];
+  const negationWords = options.negationWords.map((word) =>
+    word.toLowerCase()
+  );
+
+  const rules = new Map<string, PriorityRule>();
+  options.rules.forEach((rule) =>
+    rules.set(getPatternKey(rule.pattern), rule)
+  );
+
+  for (const rule of rules.values()) {
+    if (!rule.weight) continue;
+
+    // A rule counts once, for its first match that isn't negated
+    let negatedBy: { match: string; word: string } | null = null;
+    let matched: string | null = null;
+    for (const match of text.matchAll(toRegExp(rule.pattern))) {
+      const word = findNegation(text, match.index!, negationWords);
+      if (!word) {
+        matched = match[0];
+        break;
+      }
+      negatedBy = negatedBy || { match: match[0], word };
+    }
+
+    if (matched !== null) {
+      scores[rule.priority] += rule.weight;
+      reasons.push(`${rule.priority} +${rule.weight}: "${matched}"`);
+    } else if (negatedBy) {
+      reasons.push(
+        `ignored "${negatedBy.match}" (negated by "${negatedBy.word}")`
+      );
+    }
+  }
+
+  const signals: Array<[string, PrioritySignal | undefined]> = [
+    [
+      `review state ${context.reviewState}`,
+      context.reviewState
+        ? options.reviewStates[context.reviewState]
+        : undefined,
+    ],
+    [
+      `author role ${context.authorRole}`,
+      context.authorRole ? options.authorRoles[context.authorRole] : undefined,
+    ],
+  ];
+  for (const [label, signal] of signals) {
+    if (!signal || !signal.weight) continue;
+    scores[signal.priority] += signal.weight;
+    reasons.push(`${signal.priority} +${signal.weight}: ${label}`);
+  }
+
+  const best = PRIORITIES.reduce((highest, priority) =>
+    scores[priority] > scores[highest] ? priority : highest
+  );
+  if (scores[best] < options.minScore) {
+    reasons.push(
+      `no strong signal, using the default ${options.defaultPriority}`
+    );
+    return { priority: options.defaultPriority, scores, reasons };
+  }
+
+  return { priority: best, scores, reasons };
+}
@@ -0,0 +1,139 @@
+// Parse GitHub ```suggestion blocks from inline review comments into
+// before/after changes that can be shown as diffs or exported as a patch.
+
+export interface SuggestionSource {
+  id?: number;
+  author: string;
+  body: string;
+  path?: string;
+  line?: number;
+  start_line?: number | null;
+  side?: string;
+  diff_hunk?: string;
+}
+
+export interface Suggestion {
+  commentId: number | null;
+  author: string;
+  path: string;
+  startLine: number;
+  endLine: number;
+  // Lines being replaced, or null when they can't be recovered from the hunk
+  before: string[] | null;
+  after: string[];
+}
+
+const SUGGESTION_PATTERN = /```suggestion[^\S\r\n]*\r?\n([\s\S]*?)^[^\S\r\n]*```/gm;
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  return text.replace(/\r?\n$/, "").split(/\r?\n/);
+}
+
+// Map the new-side lines of a diff hunk to their line numbers
+function getNewSideLines(diffHunk: string): Map<number, string> {
+  const lines = new Map<number, string>();
+  const [header, ...body] = diffHunk.split(/\r?\n/);
+  const match = header.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+  if (!match) return lines;
+
+  let lineNumber = parseInt(match[1]);
+  for (const line of body) {
+    if (line.startsWith("-") || line.startsWith("\\")) continue;
+    lines.set(lineNumber, line.substring(1));
+    lineNumber++;
+  }
+  return lines;
+}
+
+export function parseSuggestions(comment: SuggestionSource): Suggestion[] {
+  if (!comment.path || !comment.line || !comment.body.includes("```suggestion")) {
+    return [];
+  }
+
+  const startLine = comment.start_line || comment.line;
+  const endLine = comment.line;
+
+  // Suggestions always apply to the new version of the file
+  let before: string[] | null = null;
+  if (comment.side !== "LEFT" && comment.diff_hunk) {
+    const newSideLines = getNewSideLines(comment.diff_hunk);
+    const replaced: string[] = [];
+    for (let line = startLine; line <= endLine; line++) {
+      if (!newSideLines.has(line)) break;
+      replaced.push(newSideLines.get(line)!);
+    }
+    if (replaced.length === endLine - startLine + 1) before = replaced;
+  }
+
+  return Array.from(comment.body.matchAll(SUGGESTION_PATTERN)).map(
+    (match) => ({
+      commentId: comment.id ?? null,
+      author: comment.author,
+      path: comment.path!,
+      startLine,
+      endLine,
+      before,
+      after: splitLines(match[1]),
+    })
+  );
+}
+
+export function formatSuggestionDiff(suggestion: Suggestion): string {
+  const removed = (suggestion.before || []).map((line) => `-${line}`);
+  const added = suggestion.after.map((line) => `+${line}`);
+  return ["```diff", ...removed, ...added, "```"].join("\n") + "\n";
+}
+
+/**
+ * Build a zero-context unified patch from the suggestions whose original
+ * lines are known. Overlapping suggestions are skipped, keeping the first.
+ * Apply with `git apply --unidiff-zero`.
+ */
+export function buildUnifiedPatch(suggestions: Suggestion[]): {
+  patch: string;
+  skipped: number;
+} {
+  const byPath = new Map<string, Suggestion[]>();
+  let skipped = 0;
+
+  for (const suggestion of suggestions) {
+    if (!suggestion.before) {
+      skipped++;
+      continue;
+    }
+    if (!byPath.has(suggestion.path)) byPath.set(suggestion.path, []);
+    byPath.get(suggestion.path)!.push(suggestion);
+  }
+
+  let patch = "";
+  for (const [path, fileSuggestions] of byPath) {
+    patch += `--- a/${path}\n+++ b/${path}\n`;
+
+    // Later hunks shift by the lines added or removed before them
+    let offset = 0;
+    let lastEndLine = 0;
+    fileSuggestions
+      .sort((a, b) => a.startLine - b.startLine)
+      .forEach((suggestion) => {
+        if (suggestion.startLine <= lastEndLine) {
+          skipped++;
+          return;
+        }
+        lastEndLine = suggestion.endLine;
+
+        const before = suggestion.before!;
+        const after = suggestion.after;
+        // Zero-length ranges point at the line before the change
+        const oldStart = suggestion.startLine;
+        const newStart =
+          after.length > 0 ? oldStart + offset : oldStart + offset - 1;
+        patch += `@@ -${oldStart},${before.length} +${newStart},${after.length} @@\n`;
+        before.forEach((line) => (patch += `-${line}\n`));
+        after.forEach((line) => (patch += `+${line}\n`));
+        offset += after.length - before.length;
+      });
+  }
+
+  return { patch, skipped };
+}
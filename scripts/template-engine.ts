@@ -0,0 +1,211 @@
+/**
+ * Minimal logic-light template engine for output templates.
+ *
+ * Supports a Handlebars-style subset:
+ *   {{path.to.value}}                 insert a value (no escaping)
+ *   {{#each list}}...{{else}}...{{/each}}
+ *                                     loop over arrays or object entries;
+ *                                     {{this}}, {{@index}}, {{@number}},
+ *                                     {{@key}}, {{@first}}, {{@last}}
+ *   {{#if value}}...{{else}}...{{/if}}
+ *   {{#unless value}}...{{/unless}}
+ *   {{! comment }}
+ *   {{../value}}                      look up in the enclosing scope
+ *   {{~value~}}                       trim whitespace before/after the tag
+ *
+ * Names are resolved in the current scope first, then in enclosing scopes.
+ * Block tags that sit alone on a line don't leave a blank line behind.
+ */
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "value"; path: string }
+  | {
+      type: "block";
+      name: "each" | "if" | "unless";
+      path: string;
+      body: TemplateNode[];
+      inverse: TemplateNode[];
+    };
+
+interface Scope {
+  context: any;
+  locals: Record<string, unknown>;
+  parent: Scope | null;
+}
+
+const TAG_PATTERN = /{{(~?)\s*([#/!]?)\s*([^}~]*?)\s*(~?)}}/g;
+
+// Drop whole lines that contain nothing but a block/comment tag
+function stripStandaloneTags(template: string): string {
+  return template.replace(
+    /^[ \t]*({{~?\s*(?:[#/!][^}]*|else\s*~?)}})[ \t]*\r?\n/gm,
+    "$1"
+  );
+}
+
+function parse(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{
+    node: Extract<TemplateNode, { type: "block" }>;
+    inElse: boolean;
+  }> = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.inverse : top.node.body;
+  };
+
+  const source = stripStandaloneTags(template);
+  let lastIndex = 0;
+  let trimNextText = false;
+  let match: RegExpExecArray | null;
+  TAG_PATTERN.lastIndex = 0;
+
+  const pushText = (text: string, trimEnd: boolean) => {
+    if (trimNextText) text = text.replace(/^\s+/, "");
+    if (trimEnd) text = text.replace(/\s+$/, "");
+    if (text) current().push({ type: "text", value: text });
+  };
+
+  while ((match = TAG_PATTERN.exec(source))) {
+    const [, trimBefore, sigil, content, trimAfter] = match;
+    pushText(source.slice(lastIndex, match.index), trimBefore === "~");
+    lastIndex = TAG_PATTERN.lastIndex;
+    trimNextText = trimAfter === "~";
+
+    if (sigil === "!") continue;
+
+    if (sigil === "#") {
+      const [name, path = "this"] = content.split(/\s+/);
+      if (name !== "each" && name !== "if" && name !== "unless") {
+        throw new Error(`Unknown template block "{{#${name}}}"`);
+      }
+      const node: Extract<TemplateNode, { type: "block" }> = {
+        type: "block",
+        name,
+        path,
+        body: [],
+        inverse: [],
+      };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (sigil === "/") {
+      const top = stack.pop();
+      if (!top || top.node.name !== content) {
+        throw new Error(
+          `Unexpected "{{/${content}}}" in template${
+            top ? ` (expected "{{/${top.node.name}}}")` : ""
+          }`
+        );
+      }
+    } else if (content === "else") {
+      const top = stack[stack.length - 1];
+      if (!top) throw new Error('"{{else}}" outside of a block in template');
+      top.inElse = true;
+    } else {
+      current().push({ type: "value", path: content });
+    }
+  }
+
+  pushText(source.slice(lastIndex), false);
+  if (stack.length > 0) {
+    throw new Error(
+      `Unclosed "{{#${stack[stack.length - 1].node.name}}}" in template`
+    );
+  }
+  return root;
+}
+
+function lookup(scope: Scope, path: string): unknown {
+  let target: Scope | null = scope;
+  while (path.startsWith("../")) {
+    target = target?.parent || null;
+    path = path.slice(3);
+  }
+  if (!target) return undefined;
+
+  if (path === "this" || path === ".") return target.context;
+  if (path.startsWith("@")) return target.locals[path];
+
+  const [head, ...rest] = path.replace(/^this\./, "").split(".");
+
+  // Resolve the first segment in the nearest scope that defines it
+  let owner: Scope | null = target;
+  while (
+    owner &&
+    !(
+      owner.context !== null &&
+      typeof owner.context === "object" &&
+      head in owner.context
+    )
+  ) {
+    owner = owner.parent;
+  }
+  if (!owner) return undefined;
+
+  return rest.reduce<any>(
+    (value, key) => (value === null || value === undefined ? value : value[key]),
+    owner.context[head]
+  );
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return !!value;
+}
+
+function renderNodes(nodes: TemplateNode[], scope: Scope): string {
+  let output = "";
+
+  for (const node of nodes) {
+    if (node.type === "text") {
+      output += node.value;
+    } else if (node.type === "value") {
+      const value = lookup(scope, node.path);
+      if (value !== null && value !== undefined) {
+        output +=
+          typeof value === "object" ? JSON.stringify(value) : String(value);
+      }
+    } else if (node.name === "each") {
+      const value = lookup(scope, node.path);
+      const entries: Array<[string, unknown]> = Array.isArray(value)
+        ? value.map((item, index) => [String(index), item])
+        : value && typeof value === "object"
+        ? Object.entries(value)
+        : [];
+
+      if (entries.length === 0) {
+        output += renderNodes(node.inverse, scope);
+        continue;
+      }
+      entries.forEach(([key, item], index) => {
+        output += renderNodes(node.body, {
+          context: item,
+          locals: {
+            "@index": index,
+            "@number": index + 1,
+            "@key": key,
+            "@first": index === 0,
+            "@last": index === entries.length - 1,
+          },
+          parent: scope,
+        });
+      });
+    } else {
+      const truthy = isTruthy(lookup(scope, node.path));
+      const show = node.name === "if" ? truthy : !truthy;
+      output += renderNodes(show ? node.body : node.inverse, scope);
+    }
+  }
+
+  return output;
+}
+
+export function renderTemplate(template: string, data: unknown): string {
+  return renderNodes(parse(template), {
+    context: data,
+    locals: {},
+    parent: null,
+  });
+}
@@ -1,4 +1,4 @@
-import { execSync } from "child_process";
+import { execFileSync, execSync } from "child_process";
 import { join } from "path";
 import { existsSync } from "fs";
 
@@ -41,14 +41,19 @@ export function findTsx(): string {
 }
 
 /**
- * Execute a TypeScript file with proper tsx resolution
+ * Execute a TypeScript file with proper tsx resolution. Interactive scripts
+ * read from this process's terminal and print prompts to stderr; only their
+ * stdout is captured.
  */
-export function executeTsFile(tsFile: string, args: string[] = []): string {
-  const tsxPath = findTsx();
-  const command = `"${tsxPath}" "${tsFile}" ${args.join(" ")}`;
-
-  return execSync(command, {
+export function executeTsFile(
+  tsFile: string,
+  args: string[] = [],
+  options: { interactive?: boolean } = {}
+): string {
+  // No shell, so URLs (&, ?) and "#123" reach the script unchanged
+  return execFileSync(findTsx(), [tsFile, ...args], {
     encoding: "utf-8",
     cwd: process.cwd(),
+    stdio: options.interactive ? ["inherit", "pipe", "inherit"] : undefined,
   });
 }
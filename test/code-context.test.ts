@@ -0,0 +1,201 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  buildCodeWindow,
+  CodeWindowInput,
+  formatCodeWindow,
+  getHunkTargetLine,
+  narrowCodeWindow,
+} from "../scripts/code-context";
+
+// "line 1" .. "line 30"
+const fileLines = Array.from({ length: 30 }, (_, index) => `line ${index + 1}`);
+
+function input(overrides: Partial<CodeWindowInput>): CodeWindowInput {
+  return {
+    path: "src/app.ts",
+    ref: "abc1234",
+    fileLines,
+    line: 15,
+    size: 5,
+    ...overrides,
+  };
+}
+
+describe("getHunkTargetLine", () => {
+  it("returns the hunk's last line without its diff marker", () => {
+    assert.equal(getHunkTargetLine("@@ -1,2 +1,2 @@\n-old\n+new\n"), "new");
+    assert.equal(getHunkTargetLine("@@ -1,2 +1,2 @@\n ctx"), "ctx");
+  });
+
+  it("is null for removed lines and empty hunks", () => {
+    assert.equal(getHunkTargetLine("@@ -1,2 +1,1 @@\n a\n-gone"), null);
+    assert.equal(getHunkTargetLine("@@ -1,0 +1,0 @@"), null);
+    assert.equal(getHunkTargetLine(undefined), null);
+  });
+});
+
+describe("buildCodeWindow", () => {
+  it("centers the window on the commented line", () => {
+    const window = buildCodeWindow(input({}))!;
+
+    assert.equal(window.startLine, 13);
+    assert.deepEqual(window.lines, [
+      "line 13",
+      "line 14",
+      "line 15",
+      "line 16",
+      "line 17",
+    ]);
+    assert.equal(window.targetStart, 15);
+    assert.equal(window.targetEnd, 15);
+    assert.equal(window.changed, false);
+    assert.equal(window.outdated, false);
+  });
+
+  it("clamps the window to the start and end of the file", () => {
+    assert.equal(buildCodeWindow(input({ line: 1 }))!.startLine, 1);
+
+    const atEnd = buildCodeWindow(input({ line: 30 }))!;
+    assert.equal(atEnd.startLine, 26);
+    assert.equal(atEnd.lines.length, 5);
+  });
+
+  it("covers the whole range of a multi-line comment", () => {
+    const window = buildCodeWindow(input({ startLine: 10, line: 18 }))!;
+
+    assert.equal(window.targetStart, 10);
+    assert.equal(window.targetEnd, 18);
+    assert.equal(window.startLine, 10);
+    assert.equal(window.lines.at(-1), "line 18");
+  });
+
+  it("flags a commented line that no longer reads as reviewed", () => {
+    const unchanged = buildCodeWindow(
+      input({ diffHunk: "@@ -14,2 +14,2 @@\n-old\n+  line   15" })
+    )!;
+    assert.equal(unchanged.changed, false);
+    assert.equal(unchanged.reviewedLine, "  line   15");
+
+    const changed = buildCodeWindow(
+      input({ diffHunk: "@@ -14,2 +14,2 @@\n-old\n+something else" })
+    )!;
+    assert.equal(changed.changed, true);
+    assert.equal(changed.reviewedLine, "something else");
+  });
+
+  it("is null for lines past the end of the file", () => {
+    assert.equal(buildCodeWindow(input({ line: 31 })), null);
+  });
+
+  describe("outdated comments", () => {
+    const movedLines = [...fileLines];
+    movedLines[21] = "  return result;";
+    // "}" on lines 5, 15 and 25
+    const repeated = fileLines.map((line, index) =>
+      index % 10 === 4 ? "}" : line
+    );
+
+    it("is centered where the reviewed line is now", () => {
+      const window = buildCodeWindow(
+        input({
+          fileLines: movedLines,
+          line: null,
+          startLine: 3,
+          originalLine: 4,
+          diffHunk: "@@ -1,3 +1,3 @@\n a\n-b\n+return   result;",
+        })
+      )!;
+
+      assert.equal(window.targetStart, 22);
+      assert.equal(window.targetEnd, 22);
+      assert.equal(window.startLine, 20);
+      assert.equal(window.changed, true);
+      assert.equal(window.outdated, true);
+      assert.equal(window.reviewedLine, "return   result;");
+    });
+
+    it("takes the match nearest the original line", () => {
+      const window = buildCodeWindow(
+        input({
+          fileLines: repeated,
+          line: null,
+          originalLine: 17,
+          diffHunk: "@@ -1,2 +1,2 @@\n a\n+}",
+        })
+      )!;
+
+      assert.equal(window.targetEnd, 15);
+    });
+
+    it("is null when the match is ambiguous without an original line", () => {
+      assert.equal(
+        buildCodeWindow(
+          input({
+            fileLines: repeated,
+            line: null,
+            diffHunk: "@@ -1,2 +1,2 @@\n a\n+}",
+          })
+        ),
+        null
+      );
+    });
+
+    it("is null when the reviewed line is gone", () => {
+      assert.equal(
+        buildCodeWindow(
+          input({
+            line: null,
+            originalLine: 15,
+            diffHunk: "@@ -1,2 +1,2 @@\n a\n+deleted since",
+          })
+        ),
+        null
+      );
+      assert.equal(buildCodeWindow(input({ line: null })), null);
+    });
+  });
+});
+
+describe("narrowCodeWindow", () => {
+  it("keeps the lines ending at the commented line", () => {
+    const window = buildCodeWindow(input({ size: 9 }))!;
+    const narrowed = narrowCodeWindow(window, 3);
+
+    assert.equal(narrowed.startLine, 13);
+    assert.deepEqual(narrowed.lines, ["line 13", "line 14", "line 15"]);
+    assert.equal(narrowed.targetEnd, 15);
+  });
+
+  it("keeps the end of a multi-line range", () => {
+    const window = buildCodeWindow(input({ startLine: 12, line: 16 }))!;
+    const narrowed = narrowCodeWindow(window, 3);
+
+    assert.equal(narrowed.startLine, 14);
+    assert.deepEqual(narrowed.lines, ["line 14", "line 15", "line 16"]);
+  });
+
+  it("does not start before the window", () => {
+    const window = buildCodeWindow(input({ line: 2 }))!;
+    const narrowed = narrowCodeWindow(window, 4);
+
+    assert.equal(narrowed.startLine, 1);
+    assert.deepEqual(narrowed.lines, ["line 1", "line 2", "line 3", "line 4"]);
+  });
+});
+
+describe("formatCodeWindow", () => {
+  it("numbers the lines and marks the commented ones", () => {
+    const window = buildCodeWindow(input({ startLine: 9, line: 10, size: 4 }))!;
+
+    assert.equal(
+      formatCodeWindow(window),
+      [
+        "   8 | line 8",
+        ">  9 | line 9",
+        "> 10 | line 10",
+        "  11 | line 11",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,295 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { getConfig, JulesWorkflowConfig } from "../scripts/config-loader";
+import {
+  createGitHubClient,
+  resolveGitHubClientOptions,
+} from "../scripts/github-client";
+import { startStubServer, StubServer } from "./stub-server";
+
+let stub: StubServer;
+
+before(async () => {
+  stub = await startStubServer();
+});
+
+after(() => stub.close());
+
+beforeEach(() => {
+  stub.requests = [];
+});
+
+function client(maxItemsPerList = 0) {
+  return createGitHubClient({
+    baseUrl: stub.url,
+    token: "t0ken",
+    maxItemsPerList,
+  });
+}
+
+// Serve `total` numbered items in pages of `perPage`, linked by Link headers
+function pagedItems(total: number, perPage: number): StubServer["handler"] {
+  return ({ url }) => {
+    const page = parseInt(url.searchParams.get("page") || "1");
+    const start = (page - 1) * perPage;
+    const items = Array.from(
+      { length: Math.max(0, Math.min(perPage, total - start)) },
+      (_, index) => ({ id: start + index + 1 })
+    );
+    const headers: Record<string, string> = {};
+    if (start + perPage < total) {
+      const next = new URL(url);
+      next.searchParams.set("page", String(page + 1));
+      headers.Link = `<${next}>; rel="next", <${stub.url}/last>; rel="last"`;
+    }
+    return { headers, body: items };
+  };
+}
+
+describe("paginate", () => {
+  it("follows Link headers until there is no next page", async () => {
+    stub.handler = pagedItems(5, 2);
+    const result = await client().paginate<{ id: number }>("/items");
+
+    assert.deepEqual(
+      result.items.map((item) => item.id),
+      [1, 2, 3, 4, 5]
+    );
+    assert.equal(result.truncated, false);
+    assert.equal(stub.requests.length, 3);
+    assert.equal(stub.requests[0].url.searchParams.get("per_page"), "100");
+    assert.equal(stub.requests[0].method, "GET");
+  });
+
+  it("stops at maxItemsPerList and reports the list as truncated", async () => {
+    stub.handler = pagedItems(10, 3);
+    const result = await client(4).paginate<{ id: number }>("/items");
+
+    assert.deepEqual(
+      result.items.map((item) => item.id),
+      [1, 2, 3, 4]
+    );
+    assert.equal(result.truncated, true);
+    assert.equal(stub.requests.length, 2);
+  });
+
+  it("is not truncated when the cap matches the list length", async () => {
+    stub.handler = pagedItems(4, 2);
+    const result = await client(4).paginate<{ id: number }>("/items");
+
+    assert.equal(result.items.length, 4);
+    assert.equal(result.truncated, false);
+  });
+
+  it("reads wrapped lists through itemsKey", async () => {
+    stub.handler = () => ({
+      body: { total_count: 1, check_runs: [{ id: 7 }] },
+    });
+    const result = await client().paginate<{ id: number }>(
+      "/check-runs",
+      "check_runs"
+    );
+
+    assert.deepEqual(result.items, [{ id: 7 }]);
+  });
+
+  it("sends the token and surfaces API errors", async () => {
+    stub.handler = () => ({ status: 404, body: { message: "Not Found" } });
+
+    await assert.rejects(
+      client().paginate("/missing"),
+      /GitHub API GET \/missing\?per_page=100 failed with 404/
+    );
+    assert.equal(stub.requests[0].headers.authorization, "Bearer t0ken");
+  });
+});
+
+describe("listReviewThreads", () => {
+  function threadNode(id: string, commentIds: number[], hasMore = false) {
+    return {
+      id,
+      isResolved: id === "T2",
+      isOutdated: false,
+      comments: {
+        pageInfo: { hasNextPage: hasMore, endCursor: hasMore ? "c1" : null },
+        nodes: commentIds.map((databaseId) => ({ databaseId })),
+      },
+    };
+  }
+
+  beforeEach(() => {
+    stub.handler = ({ url, body }) => {
+      assert.equal(url.pathname, "/graphql");
+      const { variables } = body;
+      if (variables.id) {
+        // THREAD_COMMENTS_QUERY for the rest of T1's comments
+        assert.equal(variables.cursor, "c1");
+        return {
+          body: {
+            data: {
+              node: {
+                comments: {
+                  pageInfo: { hasNextPage: false, endCursor: null },
+                  nodes: [{ databaseId: 103 }],
+                },
+              },
+            },
+          },
+        };
+      }
+      const firstPage = variables.cursor === null;
+      return {
+        body: {
+          data: {
+            repository: {
+              pullRequest: {
+                reviewThreads: {
+                  pageInfo: firstPage
+                    ? { hasNextPage: true, endCursor: "t1" }
+                    : { hasNextPage: false, endCursor: null },
+                  nodes: firstPage
+                    ? [threadNode("T1", [101, 102], true)]
+                    : [threadNode("T2", [201]), threadNode("T3", [301])],
+                },
+              },
+            },
+          },
+        },
+      };
+    };
+  });
+
+  it("pages through threads and each thread's comments", async () => {
+    const result = await client().listReviewThreads("acme", "widgets", 7);
+
+    assert.deepEqual(result, {
+      items: [
+        {
+          id: "T1",
+          isResolved: false,
+          isOutdated: false,
+          commentIds: [101, 102, 103],
+        },
+        {
+          id: "T2",
+          isResolved: true,
+          isOutdated: false,
+          commentIds: [201],
+        },
+        {
+          id: "T3",
+          isResolved: false,
+          isOutdated: false,
+          commentIds: [301],
+        },
+      ],
+      truncated: false,
+    });
+    assert.deepEqual(
+      stub.requests.map((request) => request.body.variables),
+      [
+        { owner: "acme", repo: "widgets", number: 7, cursor: null },
+        { id: "T1", cursor: "c1" },
+        { owner: "acme", repo: "widgets", number: 7, cursor: "t1" },
+      ]
+    );
+  });
+
+  it("applies maxItemsPerList to threads", async () => {
+    const result = await client(2).listReviewThreads("acme", "widgets", 7);
+
+    assert.deepEqual(
+      result.items.map((thread) => thread.id),
+      ["T1", "T2"]
+    );
+    assert.equal(result.truncated, true);
+  });
+
+  it("posts to /api/graphql for Enterprise base URLs", async () => {
+    stub.handler = () => ({ body: { data: { viewer: { login: "octocat" } } } });
+    const enterprise = createGitHubClient({
+      baseUrl: `${stub.url}/api/v3`,
+      token: null,
+      maxItemsPerList: 0,
+    });
+
+    await enterprise.graphql("{ viewer { login } }");
+    assert.equal(stub.requests[0].url.pathname, "/api/graphql");
+  });
+
+  it("throws on GraphQL errors", async () => {
+    stub.handler = () => ({ body: { errors: [{ message: "Bad query" }] } });
+
+    await assert.rejects(
+      client().graphql("{ nope }"),
+      /GitHub GraphQL query failed: Bad query/
+    );
+  });
+});
+
+describe("resolveGitHubClientOptions", () => {
+  const envVars = ["JULES_TEST_TOKEN_A", "JULES_TEST_TOKEN_B"];
+
+  function configWith(
+    github: Partial<JulesWorkflowConfig["integrations"]["github"]>
+  ): JulesWorkflowConfig {
+    const config = getConfig();
+    return {
+      ...config,
+      integrations: {
+        ...config.integrations,
+        github: {
+          ...config.integrations.github,
+          tokenEnvVars: envVars,
+          useGhAuthToken: false,
+          ...github,
+        },
+      },
+    };
+  }
+
+  beforeEach(() => {
+    for (const envVar of envVars) delete process.env[envVar];
+  });
+
+  after(() => {
+    for (const envVar of envVars) delete process.env[envVar];
+  });
+
+  it("takes the first configured variable that is set", () => {
+    process.env.JULES_TEST_TOKEN_A = "from-a";
+    process.env.JULES_TEST_TOKEN_B = "from-b";
+    assert.equal(resolveGitHubClientOptions(configWith({})).token, "from-a");
+
+    delete process.env.JULES_TEST_TOKEN_A;
+    assert.equal(resolveGitHubClientOptions(configWith({})).token, "from-b");
+  });
+
+  it("follows the configured order", () => {
+    process.env.JULES_TEST_TOKEN_A = "from-a";
+    process.env.JULES_TEST_TOKEN_B = "from-b";
+    const config = configWith({ tokenEnvVars: [...envVars].reverse() });
+
+    assert.equal(resolveGitHubClientOptions(config).token, "from-b");
+  });
+
+  it("is null when nothing is set and gh is disabled", () => {
+    assert.equal(resolveGitHubClientOptions(configWith({})).token, null);
+  });
+
+  it("trims trailing slashes from the API base URL", () => {
+    const config = configWith({
+      apiBaseUrl: "https://ghe.example.com/api/v3/",
+    });
+    const previous = process.env.GITHUB_API_URL;
+    delete process.env.GITHUB_API_URL;
+    try {
+      assert.equal(
+        resolveGitHubClientOptions(config).baseUrl,
+        "https://ghe.example.com/api/v3"
+      );
+    } finally {
+      if (previous !== undefined) process.env.GITHUB_API_URL = previous;
+    }
+  });
+});
@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { adfToMarkdown } from "../scripts/jira-adf";
+import { AdfNode } from "../scripts/jira-client";
+
+const doc = (...content: AdfNode[]): AdfNode => ({
+  type: "doc",
+  content,
+});
+const text = (value: string, ...marks: NonNullable<AdfNode["marks"]>) => ({
+  type: "text",
+  text: value,
+  ...(marks.length > 0 ? { marks } : {}),
+});
+const paragraph = (...content: AdfNode[]) => ({ type: "paragraph", content });
+const listItem = (...content: AdfNode[]) => ({ type: "listItem", content });
+
+describe("adfToMarkdown", () => {
+  it("passes API v2 strings through and treats missing bodies as empty", () => {
+    assert.equal(adfToMarkdown("h1. Wiki *markup*"), "h1. Wiki *markup*");
+    assert.equal(adfToMarkdown(null), "");
+    assert.equal(adfToMarkdown(undefined), "");
+  });
+
+  it("renders text marks", () => {
+    assert.equal(
+      adfToMarkdown(
+        doc(
+          paragraph(
+            text("bold", { type: "strong" }),
+            text(" "),
+            text("italic", { type: "em" }),
+            text(" "),
+            text("gone", { type: "strike" }),
+            text(" "),
+            text("docs", {
+              type: "link",
+              attrs: { href: "https://example.com" },
+            }),
+            text(" "),
+            text("unlinked", { type: "link" })
+          )
+        )
+      ),
+      "**bold** _italic_ ~~gone~~ [docs](https://example.com) unlinked"
+    );
+  });
+
+  it("keeps code marks innermost", () => {
+    assert.equal(
+      adfToMarkdown(
+        doc(paragraph(text("run()", { type: "strong" }, { type: "code" })))
+      ),
+      "**`run()`**"
+    );
+  });
+
+  it("renders bullet and ordered lists, nested ones indented", () => {
+    const markdown = adfToMarkdown(
+      doc(
+        {
+          type: "bulletList",
+          content: [
+            listItem(paragraph(text("First"))),
+            listItem(paragraph(text("Second")), {
+              type: "orderedList",
+              attrs: { order: 3 },
+              content: [
+                listItem(paragraph(text("Third"))),
+                listItem(paragraph(text("Fourth"))),
+              ],
+            }),
+          ],
+        },
+        paragraph(text("After"))
+      )
+    );
+
+    assert.equal(
+      markdown,
+      ["- First", "- Second", "  3. Third", "  4. Fourth", "", "After"].join(
+        "\n"
+      )
+    );
+  });
+
+  it("renders task lists", () => {
+    const taskItem = (state: string, value: string) => ({
+      type: "taskItem",
+      attrs: { state },
+      content: [text(value)],
+    });
+
+    assert.equal(
+      adfToMarkdown(
+        doc({
+          type: "taskList",
+          content: [taskItem("DONE", "a"), taskItem("TODO", "b")],
+        })
+      ),
+      "- [x] a\n- [ ] b"
+    );
+  });
+
+  it("renders tables with a header row, escaping pipes", () => {
+    const cell = (value: string) => ({
+      type: "tableCell",
+      content: [paragraph(text(value))],
+    });
+    const row = (...cells: AdfNode[]) => ({ type: "tableRow", content: cells });
+
+    assert.equal(
+      adfToMarkdown(
+        doc({
+          type: "table",
+          content: [
+            row(cell("Field"), cell("Value")),
+            row(cell("mode"), cell("a | b")),
+            row(cell("short")),
+          ],
+        })
+      ),
+      [
+        "| Field | Value |",
+        "| --- | --- |",
+        "| mode | a \\| b |",
+        "| short |  |",
+      ].join("\n")
+    );
+  });
+
+  it("renders headings, code blocks and quotes", () => {
+    assert.equal(
+      adfToMarkdown(
+        doc(
+          { type: "heading", attrs: { level: 2 }, content: [text("Steps")] },
+          {
+            type: "codeBlock",
+            attrs: { language: "ts" },
+            content: [text("const x = 1;")],
+          },
+          { type: "blockquote", content: [paragraph(text("Quoted"))] }
+        )
+      ),
+      "## Steps\n\n```ts\nconst x = 1;\n```\n\n> Quoted"
+    );
+  });
+});
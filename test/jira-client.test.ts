@@ -0,0 +1,209 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { createJiraClient } from "../scripts/jira-client";
+import { startStubServer, StubServer } from "./stub-server";
+
+let stub: StubServer;
+
+before(async () => {
+  stub = await startStubServer();
+});
+
+after(() => stub.close());
+
+beforeEach(() => {
+  stub.requests = [];
+});
+
+const issue = (number: number) => ({
+  key: `ENG-${number}`,
+  fields: { summary: `Issue ${number}` },
+});
+const issues = (from: number, count: number) =>
+  Array.from({ length: count }, (_, index) => issue(from + index));
+
+function cloudClient() {
+  return createJiraClient({
+    baseUrl: stub.url,
+    email: "dev@example.com",
+    token: "cloud-token",
+  });
+}
+
+function dataCenterClient() {
+  return createJiraClient({ baseUrl: stub.url, email: null, token: "pat" });
+}
+
+describe("API version", () => {
+  beforeEach(() => {
+    stub.handler = () => ({ body: issue(1) });
+  });
+
+  it("uses API v3 with basic auth on Cloud", async () => {
+    await cloudClient().getIssue("ENG-1", ["summary", "status"]);
+
+    const [request] = stub.requests;
+    assert.equal(request.url.pathname, "/rest/api/3/issue/ENG-1");
+    assert.equal(request.url.searchParams.get("fields"), "summary,status");
+    assert.equal(
+      request.headers.authorization,
+      `Basic ${Buffer.from("dev@example.com:cloud-token").toString("base64")}`
+    );
+  });
+
+  it("uses API v2 with a bearer token on Data Center", async () => {
+    await dataCenterClient().getIssue("ENG-1", ["summary"]);
+
+    const [request] = stub.requests;
+    assert.equal(request.url.pathname, "/rest/api/2/issue/ENG-1");
+    assert.equal(request.headers.authorization, "Bearer pat");
+  });
+
+  it("uses API v3 without credentials", async () => {
+    await createJiraClient({
+      baseUrl: stub.url,
+      email: null,
+      token: null,
+    }).getMyself();
+
+    const [request] = stub.requests;
+    assert.equal(request.url.pathname, "/rest/api/3/myself");
+    assert.equal(request.headers.authorization, undefined);
+  });
+
+  it("fails without a base URL", async () => {
+    await assert.rejects(
+      createJiraClient({ baseUrl: null, email: null, token: null }).getMyself(),
+      /Jira base URL is not configured/
+    );
+  });
+
+  it("surfaces API errors", async () => {
+    stub.handler = () => ({ status: 401, body: { errorMessages: ["Nope"] } });
+
+    await assert.rejects(
+      cloudClient().getIssue("ENG-1", ["summary"]),
+      /Jira API GET \/rest\/api\/3\/issue\/ENG-1\?fields=summary failed with 401/
+    );
+  });
+});
+
+describe("searchIssues", () => {
+  it("follows nextPageToken on Cloud", async () => {
+    stub.handler = ({ url }) => {
+      assert.equal(url.pathname, "/rest/api/3/search/jql");
+      return url.searchParams.get("nextPageToken") === "page-2"
+        ? { body: { issues: issues(3, 2) } }
+        : { body: { issues: issues(1, 2), nextPageToken: "page-2" } };
+    };
+
+    const result = await cloudClient().searchIssues(
+      "project = ENG",
+      ["summary"],
+      10
+    );
+
+    assert.deepEqual(
+      result.map((found) => found.key),
+      ["ENG-1", "ENG-2", "ENG-3", "ENG-4"]
+    );
+    assert.deepEqual(
+      stub.requests.map((request) =>
+        Object.fromEntries(request.url.searchParams)
+      ),
+      [
+        { jql: "project = ENG", fields: "summary", maxResults: "10" },
+        {
+          jql: "project = ENG",
+          fields: "summary",
+          maxResults: "8",
+          nextPageToken: "page-2",
+        },
+      ]
+    );
+  });
+
+  it("stops at maxResults on Cloud", async () => {
+    stub.handler = () => ({
+      body: { issues: issues(1, 3), nextPageToken: "more" },
+    });
+
+    const result = await cloudClient().searchIssues("", ["summary"], 3);
+
+    assert.equal(result.length, 3);
+    assert.equal(stub.requests.length, 1);
+  });
+
+  it("pages with startAt on Data Center", async () => {
+    stub.handler = ({ url }) => {
+      assert.equal(url.pathname, "/rest/api/2/search");
+      const startAt = Number(url.searchParams.get("startAt"));
+      const count = Math.min(2, 5 - startAt);
+      return { body: { issues: issues(startAt + 1, count), total: 5 } };
+    };
+
+    const result = await dataCenterClient().searchIssues(
+      "project = ENG",
+      ["summary"],
+      10
+    );
+
+    assert.deepEqual(
+      result.map((found) => found.key),
+      ["ENG-1", "ENG-2", "ENG-3", "ENG-4", "ENG-5"]
+    );
+    assert.deepEqual(
+      stub.requests.map((request) => request.url.searchParams.get("startAt")),
+      ["0", "2", "4"]
+    );
+  });
+
+  it("stops at maxResults on Data Center", async () => {
+    stub.handler = ({ url }) => {
+      const startAt = Number(url.searchParams.get("startAt"));
+      const maxResults = Number(url.searchParams.get("maxResults"));
+      return { body: { issues: issues(startAt + 1, maxResults), total: 500 } };
+    };
+
+    const result = await dataCenterClient().searchIssues("", ["summary"], 150);
+
+    assert.equal(result.length, 150);
+    assert.deepEqual(
+      stub.requests.map((request) =>
+        request.url.searchParams.get("maxResults")
+      ),
+      ["100", "50"]
+    );
+  });
+});
+
+describe("listComments", () => {
+  it("pages until every comment is fetched", async () => {
+    const comments = Array.from({ length: 5 }, (_, index) => ({
+      body: `Comment ${index + 1}`,
+      created: "2026-01-01T00:00:00.000+0000",
+    }));
+    stub.handler = ({ url }) => {
+      assert.equal(url.pathname, "/rest/api/3/issue/ENG-1/comment");
+      const startAt = Number(url.searchParams.get("startAt"));
+      return {
+        body: { comments: comments.slice(startAt, startAt + 2), total: 5 },
+      };
+    };
+
+    const result = await cloudClient().listComments("ENG-1");
+
+    assert.deepEqual(
+      result.map((comment) => comment.body),
+      ["Comment 1", "Comment 2", "Comment 3", "Comment 4", "Comment 5"]
+    );
+    assert.equal(stub.requests.length, 3);
+  });
+
+  it("stops on an empty page", async () => {
+    stub.handler = () => ({ body: { comments: [], total: 10 } });
+
+    assert.deepEqual(await cloudClient().listComments("ENG-1"), []);
+    assert.equal(stub.requests.length, 1);
+  });
+});
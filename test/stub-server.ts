@@ -0,0 +1,67 @@
+import { createServer, IncomingHttpHeaders } from "node:http";
+import { AddressInfo } from "node:net";
+
+// A local HTTP server standing in for the GitHub and Jira APIs. Tests set
+// `handler` to reply and read `requests` to see what the client sent.
+
+export interface StubRequest {
+  method: string;
+  url: URL;
+  headers: IncomingHttpHeaders;
+  // Parsed JSON request body, if any
+  body: any;
+}
+
+export interface StubReply {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+export interface StubServer {
+  url: string;
+  requests: StubRequest[];
+  handler: (request: StubRequest) => StubReply;
+  close(): Promise<void>;
+}
+
+export async function startStubServer(): Promise<StubServer> {
+  const server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const request: StubRequest = {
+        method: req.method!,
+        url: new URL(req.url!, stub.url),
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined,
+      };
+      stub.requests.push(request);
+
+      let reply: StubReply;
+      try {
+        reply = stub.handler(request);
+      } catch (error) {
+        // Fail the request rather than the server, so the test sees it
+        reply = { status: 500, body: { message: String(error) } };
+      }
+      res.writeHead(reply.status || 200, {
+        "Content-Type": "application/json",
+        ...reply.headers,
+      });
+      res.end(JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  const stub: StubServer = {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests: [],
+    handler: () => ({ status: 404, body: { message: "No handler" } }),
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+  return stub;
+}